@@ -9,10 +9,16 @@ import { router } from 'expo-router';
 import { Alert, View, ActivityIndicator, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import NetInfo from '@react-native-community/netinfo';
 import { Ionicons } from '@expo/vector-icons';
+import { useCan } from '@/hooks/useCan';
+import { syncManager } from '@/lib/localDb/syncManager';
 
 export default function AdminDrawerLayout() {
   const colorScheme = useColorScheme();
   const [loading, setLoading] = useState(false);
+  const can = useCan();
+
+  // الشاشات التي لا تسمح بها صلاحيات المستخدم تُخفى من القائمة
+  const shownIf = (allowed: boolean) => (allowed ? {} : { drawerItemStyle: { display: 'none' as const } });
 
   const handleSignOut = async () => {
     Alert.alert(
@@ -41,6 +47,8 @@ export default function AdminDrawerLayout() {
 
               // بعد تسجيل الخروج من Supabase (إذا كان متصلاً) أو في وضع عدم الاتصال
               // نقوم ببساطة بإعادة توجيه المستخدم إلى صفحة تسجيل الدخول
+              // إيقاف التحديثات الحية حتى لا تبقى قناة المستخدم السابق مفتوحة
+              await syncManager.stopRealtime();
               Alert.alert('تم تسجيل الخروج', 'تم تسجيل خروجك بنجاح.');
               router.replace('/signIn'); // إعادة توجيه إلى شاشة تسجيل الدخول
             } catch (error: any) {
@@ -103,9 +111,21 @@ export default function AdminDrawerLayout() {
           ),
         }}
       />
+      <Drawer.Screen
+        name="duplicates"
+        options={{
+          ...shownIf(can('students.merge')),
+          drawerLabel: 'الطلاب المكررون',
+          title: 'البحث عن الطلاب المكررين',
+          drawerIcon: ({ color, size }) => (
+            <MaterialCommunityIcons name="account-multiple-check-outline" size={size} color={color} />
+          ),
+        }}
+      />
       <Drawer.Screen
         name="users"
         options={{
+          ...shownIf(can('users.manage')),
           drawerLabel: 'المستخدمون',
           title: 'إدارة المستخدمين',
           drawerIcon: ({ color, size }) => (
@@ -116,6 +136,7 @@ export default function AdminDrawerLayout() {
       <Drawer.Screen
         name="levels"
         options={{
+          ...shownIf(can('levels.manage')),
           drawerLabel: 'المستويات',
           title: 'إدارة المستويات',
           drawerIcon: ({ color, size }) => (
@@ -126,6 +147,7 @@ export default function AdminDrawerLayout() {
       <Drawer.Screen
         name="offices"
         options={{
+          ...shownIf(can('offices.manage')),
           drawerLabel: 'المراكز',
           title: 'إدارة المراكز',
           drawerIcon: ({ color, size }) => (
@@ -133,6 +155,39 @@ export default function AdminDrawerLayout() {
           ),
         }}
       />
+      <Drawer.Screen
+        name="recycleBin"
+        options={{
+          ...shownIf(can('recycleBin.manage')),
+          drawerLabel: 'المحذوفات',
+          title: 'سلة المحذوفات',
+          drawerIcon: ({ color, size }) => (
+            <MaterialCommunityIcons name="delete-restore" size={size} color={color} />
+          ),
+        }}
+      />
+      <Drawer.Screen
+        name="conflicts"
+        options={{
+          ...shownIf(can('sync.manage')),
+          drawerLabel: 'التعارضات',
+          title: 'مراجعة تعارضات المزامنة',
+          drawerIcon: ({ color, size }) => (
+            <MaterialCommunityIcons name="source-merge" size={size} color={color} />
+          ),
+        }}
+      />
+      <Drawer.Screen
+        name="failures"
+        options={{
+          ...shownIf(can('sync.manage')),
+          drawerLabel: 'المزامنة الفاشلة',
+          title: 'العمليات التي فشلت مزامنتها',
+          drawerIcon: ({ color, size }) => (
+            <MaterialCommunityIcons name="cloud-alert" size={size} color={color} />
+          ),
+        }}
+      />
 
     </Drawer>
   );
@@ -0,0 +1,461 @@
+// app/(admin)/conflicts.tsx
+import { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  Alert,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { initDb } from '@/lib/localDb/index';
+import { syncManager } from '@/lib/localDb/syncManager';
+import { CONFLICT_FIELDS, getPendingConflicts, SyncConflict } from '@/lib/localDb/conflicts';
+import { officesRepository } from '@/lib/localDb/officesRepository';
+import { levelsRepository } from '@/lib/localDb/levelsRepository';
+import { studentsRepository } from '@/lib/localDb/studentsRepository';
+import { BaseRepository } from '@/lib/localDb/baseRepository';
+import { ThemedView } from '@/components/ThemedView';
+
+const ENTITY_LABELS: Record<string, string> = {
+  students: 'طالب',
+  levels: 'مستوى',
+  offices: 'مركز',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'الاسم',
+  birth_date: 'تاريخ الميلاد',
+  phone: 'الهاتف',
+  address: 'العنوان',
+  office_id: 'المركز',
+  level_id: 'المستوى',
+};
+
+// السجلات المكررة تُعالج عبر مستودع الكيان لأنها تنقل السجلات المرتبطة أو تعيد التسمية
+const REPOSITORIES: Record<string, BaseRepository<any>> = {
+  students: studentsRepository,
+  levels: levelsRepository,
+  offices: officesRepository,
+};
+
+// الحقول المرجعية تُختار من أحد الطرفين فقط ولا تُحرر نصياً
+const REFERENCE_FIELDS = ['office_id', 'level_id'];
+
+type Side = 'local' | 'remote';
+
+export default function ConflictsScreen() {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [officeNames, setOfficeNames] = useState<Record<number, string>>({});
+  const [levelNames, setLevelNames] = useState<Record<number, string>>({});
+
+  // حالة نافذة الدمج اليدوي
+  const [mergingConflict, setMergingConflict] = useState<SyncConflict | null>(null);
+  const [mergedValues, setMergedValues] = useState<Record<string, string>>({});
+  const [fieldSides, setFieldSides] = useState<Record<string, Side>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchConflicts = useCallback(async () => {
+    setLoading(true);
+    try {
+      await initDb();
+      const [pending, offices, levels] = await Promise.all([
+        getPendingConflicts(),
+        officesRepository.getAll(),
+        levelsRepository.getAll(),
+      ]);
+      setConflicts(pending);
+      setOfficeNames(Object.fromEntries(offices.filter(o => o.supabase_id).map(o => [o.supabase_id!, o.name])));
+      setLevelNames(Object.fromEntries(levels.filter(l => l.supabase_id).map(l => [l.supabase_id!, l.name])));
+    } catch (error: any) {
+      Alert.alert('خطأ', `فشل في جلب التعارضات: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConflicts();
+  }, [fetchConflicts]);
+
+  const displayValue = (field: string, row: any) => {
+    if (row.deleted_at) return 'محذوف';
+    const value = row[field];
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'office_id') return officeNames[value] ?? `#${value}`;
+    if (field === 'level_id') return levelNames[value] ?? `#${value}`;
+    return String(value);
+  };
+
+  const applyResolution = async (conflict: SyncConflict, resolution: 'local' | 'remote' | 'merged', values?: Record<string, any>) => {
+    try {
+      if (conflict.kind === 'duplicate') {
+        await REPOSITORIES[conflict.entity].resolveDuplicate(conflict, resolution === 'remote' ? 'remote' : 'merged', values);
+      } else {
+        await syncManager.resolveConflictManually(conflict.id, resolution, values);
+      }
+      await fetchConflicts();
+      // إعادة المحاولة مباشرة إن أمكن حتى لا يبقى السجل معلقاً
+      if (syncManager.isConnected) {
+        syncManager.syncAll().catch(console.error);
+      }
+    } catch (error: any) {
+      Alert.alert('خطأ', error.message);
+    }
+  };
+
+  const confirmSide = (conflict: SyncConflict, side: Side) => {
+    Alert.alert(
+      'تأكيد الاختيار',
+      conflict.kind === 'duplicate'
+        ? 'سيُحذف السجل المحلي وتُنقل السجلات المرتبطة به إلى سجل الخادم. هل تريد المتابعة؟'
+        : side === 'local'
+          ? 'سيتم اعتماد النسخة المحلية وإرسالها إلى الخادم. هل تريد المتابعة؟'
+          : 'سيتم اعتماد نسخة الخادم وتجاهل التعديلات المحلية. هل تريد المتابعة؟',
+      [
+        { text: 'إلغاء', style: 'cancel' },
+        { text: 'اعتماد', onPress: () => applyResolution(conflict, side) },
+      ]
+    );
+  };
+
+  const openMerge = (conflict: SyncConflict) => {
+    const local = JSON.parse(conflict.local_data);
+    const values: Record<string, string> = {};
+    const sides: Record<string, Side> = {};
+    for (const field of CONFLICT_FIELDS[conflict.entity] ?? []) {
+      values[field] = local[field] === null || local[field] === undefined ? '' : String(local[field]);
+      sides[field] = 'local';
+    }
+    setMergedValues(values);
+    setFieldSides(sides);
+    setMergingConflict(conflict);
+  };
+
+  const closeMerge = () => {
+    setMergingConflict(null);
+    setMergedValues({});
+    setFieldSides({});
+  };
+
+  const pickSide = (field: string, side: Side) => {
+    if (!mergingConflict) return;
+    const source = JSON.parse(side === 'local' ? mergingConflict.local_data : mergingConflict.remote_data);
+    const value = source[field];
+    setFieldSides(prev => ({ ...prev, [field]: side }));
+    setMergedValues(prev => ({ ...prev, [field]: value === null || value === undefined ? '' : String(value) }));
+  };
+
+  const saveMerge = async () => {
+    if (!mergingConflict) return;
+    if (!mergedValues.name?.trim()) {
+      Alert.alert('خطأ', 'لا يمكن أن يكون الاسم فارغاً');
+      return;
+    }
+
+    const values: Record<string, any> = {};
+    for (const [field, value] of Object.entries(mergedValues)) {
+      const trimmed = value.trim();
+      values[field] = REFERENCE_FIELDS.includes(field) ? Number(trimmed) : trimmed || null;
+    }
+
+    setIsSaving(true);
+    try {
+      await applyResolution(mergingConflict, 'merged', values);
+      closeMerge();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderConflict = ({ item }: { item: SyncConflict }) => {
+    const local = JSON.parse(item.local_data);
+    const remote = JSON.parse(item.remote_data);
+    const fields = CONFLICT_FIELDS[item.entity] ?? [];
+    const isDuplicate = item.kind === 'duplicate';
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>{local.name || remote.name}</Text>
+          <Text style={styles.entityBadge}>{ENTITY_LABELS[item.entity] ?? item.entity}</Text>
+        </View>
+        <Text style={styles.cardMeta}>منذ: {new Date(item.created_at).toLocaleString()}</Text>
+        {isDuplicate && (
+          <Text style={styles.cardMeta}>سجل على الخادم يحمل نفس قيم سجل آخر على الجهاز: ادمجهما أو أعد تسمية المحلي</Text>
+        )}
+
+        <View style={[styles.row, styles.headRow]}>
+          <Text style={[styles.cell, styles.fieldCell, styles.headText]}>الحقل</Text>
+          <Text style={[styles.cell, styles.headText]}>على الجهاز</Text>
+          <Text style={[styles.cell, styles.headText]}>على الخادم</Text>
+        </View>
+        {fields.map(field => {
+          const localValue = displayValue(field, local);
+          const remoteValue = displayValue(field, remote);
+          const differs = localValue !== remoteValue;
+          return (
+            <View key={field} style={[styles.row, differs && styles.diffRow]}>
+              <Text style={[styles.cell, styles.fieldCell]}>{FIELD_LABELS[field] ?? field}</Text>
+              <Text style={[styles.cell, differs && styles.diffText]}>{localValue}</Text>
+              <Text style={[styles.cell, differs && styles.diffText]}>{remoteValue}</Text>
+            </View>
+          );
+        })}
+
+        <View style={styles.actions}>
+          {!isDuplicate && (
+            <TouchableOpacity style={[styles.actionButton, styles.localButton]} onPress={() => confirmSide(item, 'local')}>
+              <Ionicons name="phone-portrait-outline" size={16} color="#3b82f6" />
+              <Text style={styles.localText}>اعتماد المحلي</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={[styles.actionButton, styles.remoteButton]} onPress={() => confirmSide(item, 'remote')}>
+            <Ionicons name="cloud-outline" size={16} color="#10b981" />
+            <Text style={styles.remoteText}>{isDuplicate ? 'الدمج في سجل الخادم' : 'اعتماد الخادم'}</Text>
+          </TouchableOpacity>
+          {!local.deleted_at && !remote.deleted_at && (
+            <TouchableOpacity style={[styles.actionButton, styles.mergeButton]} onPress={() => openMerge(item)}>
+              <Ionicons name={isDuplicate ? 'create-outline' : 'git-merge-outline'} size={16} color="#6366f1" />
+              <Text style={styles.mergeText}>{isDuplicate ? 'إعادة تسمية المحلي' : 'دمج'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const EmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons name="checkmark-done-circle-outline" size={64} color="#d1d5db" />
+      <Text style={styles.emptyStateText}>لا توجد تعارضات</Text>
+      <Text style={styles.emptyStateSubtext}>كل السجلات متوافقة مع الخادم</Text>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>التعارضات</Text>
+        <Text style={styles.countText}>{conflicts.length} بانتظار المراجعة</Text>
+      </View>
+
+      <FlatList
+        data={conflicts}
+        keyExtractor={item => item.id.toString()}
+        renderItem={renderConflict}
+        refreshing={loading}
+        onRefresh={fetchConflicts}
+        ListEmptyComponent={loading ? null : EmptyState}
+        contentContainerStyle={styles.listContent}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+      />
+
+      <Modal visible={!!mergingConflict} animationType="fade" transparent onRequestClose={closeMerge}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {mergingConflict?.kind === 'duplicate' ? 'القيم الجديدة للسجل المحلي' : 'دمج القيم'}
+              </Text>
+              <TouchableOpacity style={styles.closeButton} onPress={closeMerge}>
+                <Ionicons name="close" size={24} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              {mergingConflict && (CONFLICT_FIELDS[mergingConflict.entity] ?? []).map(field => (
+                <View key={field} style={styles.mergeField}>
+                  <Text style={styles.label}>{FIELD_LABELS[field] ?? field}</Text>
+                  <View style={styles.sidePicker}>
+                    {(['local', 'remote'] as Side[]).map(side => (
+                      <TouchableOpacity
+                        key={side}
+                        style={[styles.sideChip, fieldSides[field] === side && styles.sideChipActive]}
+                        onPress={() => pickSide(field, side)}
+                      >
+                        <Text style={[styles.sideChipText, fieldSides[field] === side && styles.sideChipTextActive]}>
+                          {side === 'local' ? 'الجهاز' : 'الخادم'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  {REFERENCE_FIELDS.includes(field) ? (
+                    <Text style={styles.referenceValue}>
+                      {displayValue(field, { [field]: mergedValues[field] ? Number(mergedValues[field]) : null })}
+                    </Text>
+                  ) : (
+                    <TextInput
+                      value={mergedValues[field] ?? ''}
+                      onChangeText={text => setMergedValues(prev => ({ ...prev, [field]: text }))}
+                      style={styles.input}
+                    />
+                  )}
+                </View>
+              ))}
+            </ScrollView>
+
+            <View style={styles.modalFooter}>
+              <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={closeMerge}>
+                <Text style={styles.cancelText}>إلغاء</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton]}
+                onPress={saveMerge}
+                disabled={isSaving}
+              >
+                <Text style={styles.saveText}>حفظ وإعادة المزامنة</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#f8fafc' },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  title: { fontSize: 28, fontWeight: 'bold', color: '#1e293b' },
+  countText: { fontSize: 14, color: '#64748b' },
+  listContent: { padding: 16, flexGrow: 1 },
+  separator: { height: 12 },
+  card: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+  },
+  cardHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  cardTitle: { fontSize: 16, fontWeight: '600', color: '#1e293b', flex: 1 },
+  entityBadge: {
+    fontSize: 12,
+    color: '#6366f1',
+    backgroundColor: '#e0e7ff',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  cardMeta: { fontSize: 12, color: '#6b7280', marginTop: 4, marginBottom: 12 },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  headRow: { backgroundColor: '#f8fafc' },
+  diffRow: { backgroundColor: '#fffbeb' },
+  cell: { flex: 1, fontSize: 13, color: '#475569', paddingHorizontal: 4, textAlign: 'right' },
+  fieldCell: { flex: 0.8, fontWeight: '600', color: '#374151' },
+  headText: { fontWeight: 'bold', color: '#1e293b' },
+  diffText: { color: '#b45309', fontWeight: '600' },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 8, marginTop: 12 },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  localButton: { backgroundColor: '#eff6ff' },
+  remoteButton: { backgroundColor: '#ecfdf5' },
+  mergeButton: { backgroundColor: '#eef2ff' },
+  localText: { color: '#3b82f6', fontSize: 12, fontWeight: '600' },
+  remoteText: { color: '#10b981', fontSize: 12, fontWeight: '600' },
+  mergeText: { color: '#6366f1', fontSize: 12, fontWeight: '600' },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateText: { fontSize: 18, color: '#6b7280', marginTop: 16 },
+  emptyStateSubtext: { fontSize: 14, color: '#9ca3af', marginTop: 4 },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    maxWidth: 400,
+    maxHeight: '85%',
+    width: '100%',
+    alignSelf: 'center',
+    elevation: 8,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  modalTitle: { fontSize: 20, fontWeight: 'bold', color: '#1e293b' },
+  closeButton: { padding: 4 },
+  modalBody: { padding: 20 },
+  mergeField: { marginBottom: 16 },
+  label: { fontSize: 14, fontWeight: '600', color: '#374151', marginBottom: 8 },
+  sidePicker: { flexDirection: 'row', gap: 8, marginBottom: 8 },
+  sideChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#f3f4f6',
+  },
+  sideChipActive: { backgroundColor: '#6366f1' },
+  sideChipText: { fontSize: 12, color: '#374151' },
+  sideChipTextActive: { color: 'white', fontWeight: '600' },
+  referenceValue: { fontSize: 16, color: '#1e293b', textAlign: 'right' },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#1e293b',
+    textAlign: 'right',
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  modalButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  cancelButton: { backgroundColor: '#f3f4f6' },
+  saveButton: { backgroundColor: '#6366f1' },
+  cancelText: { color: '#374151', fontWeight: '600' },
+  saveText: { color: 'white', fontWeight: '600' },
+});
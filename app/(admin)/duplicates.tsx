@@ -0,0 +1,396 @@
+// app/(admin)/duplicates.tsx
+import { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  Alert,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { initDb } from '@/lib/localDb/index';
+import { syncManager } from '@/lib/localDb/syncManager';
+import { Student } from '@/lib/localDb/studentsRepository';
+import {
+  DuplicateCandidate,
+  dismissDuplicate,
+  findDuplicateStudents,
+  mergeStudents,
+} from '@/lib/localDb/studentDuplicates';
+import { ThemedView } from '@/components/ThemedView';
+
+// الحقول التي يُختار مصدر كل منها عند الدمج
+const MERGE_FIELDS: { key: keyof Student; label: string }[] = [
+  { key: 'name', label: 'الاسم' },
+  { key: 'birth_date', label: 'تاريخ الميلاد' },
+  { key: 'phone', label: 'الهاتف' },
+  { key: 'address', label: 'العنوان' },
+  { key: 'office_uuid', label: 'المركز' },
+  { key: 'level_uuid', label: 'المستوى' },
+];
+
+type Side = 'first' | 'second';
+
+const displayValue = (field: keyof Student, student: Student) => {
+  if (field === 'office_uuid') return student.office_name ?? '—';
+  if (field === 'level_uuid') return student.level_name ?? '—';
+  const value = student[field];
+  return value === null || value === undefined || value === '' ? '—' : String(value);
+};
+
+export default function DuplicatesScreen() {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // حالة نافذة الدمج
+  const [merging, setMerging] = useState<DuplicateCandidate | null>(null);
+  const [keepSide, setKeepSide] = useState<Side>('first');
+  const [fieldSides, setFieldSides] = useState<Record<string, Side>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchCandidates = useCallback(async () => {
+    setLoading(true);
+    try {
+      await initDb();
+      setCandidates(await findDuplicateStudents());
+    } catch (error: any) {
+      Alert.alert('خطأ', `فشل في البحث عن التكرارات: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCandidates();
+  }, [fetchCandidates]);
+
+  const confirmDismiss = (candidate: DuplicateCandidate) => {
+    Alert.alert(
+      'ليسا مكررين',
+      'لن يتم اقتراح هذين الطالبين كتكرار مرة أخرى. هل تريد المتابعة؟',
+      [
+        { text: 'إلغاء', style: 'cancel' },
+        {
+          text: 'تأكيد',
+          onPress: async () => {
+            try {
+              await dismissDuplicate(candidate.first, candidate.second);
+              setCandidates(prev => prev.filter(c => c !== candidate));
+            } catch (error: any) {
+              Alert.alert('خطأ', error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const openMerge = (candidate: DuplicateCandidate) => {
+    // افتراضياً: قيم السجل الأقدم، مع ملء الحقول الفارغة من السجل الآخر
+    const sides: Record<string, Side> = {};
+    for (const { key } of MERGE_FIELDS) {
+      const value = candidate.first[key];
+      sides[key] = value === null || value === undefined || value === '' ? 'second' : 'first';
+    }
+    setFieldSides(sides);
+    setKeepSide('first');
+    setMerging(candidate);
+  };
+
+  const closeMerge = () => {
+    setMerging(null);
+    setFieldSides({});
+  };
+
+  const saveMerge = async () => {
+    if (!merging) return;
+    const keep = keepSide === 'first' ? merging.first : merging.second;
+    const remove = keepSide === 'first' ? merging.second : merging.first;
+
+    const values: Partial<Student> = {};
+    for (const { key } of MERGE_FIELDS) {
+      const source = fieldSides[key] === 'first' ? merging.first : merging.second;
+      (values as any)[key] = source[key] ?? null;
+    }
+
+    setIsSaving(true);
+    try {
+      await mergeStudents(keep, remove, values);
+      closeMerge();
+      await fetchCandidates();
+      if (syncManager.isConnected) {
+        syncManager.syncAll().catch(console.error);
+      }
+    } catch (error: any) {
+      Alert.alert('خطأ', error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderCandidate = ({ item }: { item: DuplicateCandidate }) => (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle}>{item.first.name}</Text>
+        <Text style={styles.scoreBadge}>{Math.round(item.score * 100)}%</Text>
+      </View>
+      <Text style={styles.cardMeta}>{item.reasons.join(' • ')}</Text>
+
+      <View style={[styles.row, styles.headRow]}>
+        <Text style={[styles.cell, styles.fieldCell, styles.headText]}>الحقل</Text>
+        <Text style={[styles.cell, styles.headText]}>السجل الأول</Text>
+        <Text style={[styles.cell, styles.headText]}>السجل الثاني</Text>
+      </View>
+      {MERGE_FIELDS.map(({ key, label }) => {
+        const firstValue = displayValue(key, item.first);
+        const secondValue = displayValue(key, item.second);
+        const differs = firstValue !== secondValue;
+        return (
+          <View key={key} style={[styles.row, differs && styles.diffRow]}>
+            <Text style={[styles.cell, styles.fieldCell]}>{label}</Text>
+            <Text style={[styles.cell, differs && styles.diffText]}>{firstValue}</Text>
+            <Text style={[styles.cell, differs && styles.diffText]}>{secondValue}</Text>
+          </View>
+        );
+      })}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={[styles.actionButton, styles.dismissButton]} onPress={() => confirmDismiss(item)}>
+          <Ionicons name="close-circle-outline" size={16} color="#6b7280" />
+          <Text style={styles.dismissText}>ليسا مكررين</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.actionButton, styles.mergeButton]} onPress={() => openMerge(item)}>
+          <Ionicons name="git-merge-outline" size={16} color="#6366f1" />
+          <Text style={styles.mergeText}>دمج</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const EmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons name="people-outline" size={64} color="#d1d5db" />
+      <Text style={styles.emptyStateText}>لا توجد تكرارات محتملة</Text>
+      <Text style={styles.emptyStateSubtext}>لم يتم العثور على طلاب متشابهين</Text>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>الطلاب المكررون</Text>
+        <Text style={styles.countText}>{candidates.length} حالة محتملة</Text>
+      </View>
+
+      <FlatList
+        data={candidates}
+        keyExtractor={item => `${item.first.uuid}|${item.second.uuid}`}
+        renderItem={renderCandidate}
+        refreshing={loading}
+        onRefresh={fetchCandidates}
+        ListEmptyComponent={loading ? null : EmptyState}
+        contentContainerStyle={styles.listContent}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+      />
+
+      <Modal visible={!!merging} animationType="fade" transparent onRequestClose={closeMerge}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>دمج الطالبين</Text>
+              <TouchableOpacity style={styles.closeButton} onPress={closeMerge}>
+                <Ionicons name="close" size={24} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+
+            {merging && (
+              <ScrollView style={styles.modalBody}>
+                <View style={styles.mergeField}>
+                  <Text style={styles.label}>السجل المُبقى عليه</Text>
+                  <View style={styles.sidePicker}>
+                    {(['first', 'second'] as Side[]).map(side => (
+                      <TouchableOpacity
+                        key={side}
+                        style={[styles.sideChip, keepSide === side && styles.sideChipActive]}
+                        onPress={() => setKeepSide(side)}
+                      >
+                        <Text style={[styles.sideChipText, keepSide === side && styles.sideChipTextActive]}>
+                          {side === 'first' ? 'الأول' : 'الثاني'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <Text style={styles.hint}>سيتم حذف السجل الآخر بعد نقل القيم المختارة</Text>
+                </View>
+
+                {MERGE_FIELDS.map(({ key, label }) => (
+                  <View key={key} style={styles.mergeField}>
+                    <Text style={styles.label}>{label}</Text>
+                    <View style={styles.sidePicker}>
+                      {(['first', 'second'] as Side[]).map(side => (
+                        <TouchableOpacity
+                          key={side}
+                          style={[styles.sideChip, fieldSides[key] === side && styles.sideChipActive]}
+                          onPress={() => setFieldSides(prev => ({ ...prev, [key]: side }))}
+                        >
+                          <Text style={[styles.sideChipText, fieldSides[key] === side && styles.sideChipTextActive]}>
+                            {displayValue(key, side === 'first' ? merging.first : merging.second)}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                ))}
+              </ScrollView>
+            )}
+
+            <View style={styles.modalFooter}>
+              <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={closeMerge}>
+                <Text style={styles.cancelText}>إلغاء</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.saveButton]}
+                onPress={saveMerge}
+                disabled={isSaving}
+              >
+                <Text style={styles.saveText}>دمج</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#f8fafc' },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  title: { fontSize: 28, fontWeight: 'bold', color: '#1e293b' },
+  countText: { fontSize: 14, color: '#64748b' },
+  listContent: { padding: 16, flexGrow: 1 },
+  separator: { height: 12 },
+  card: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+  },
+  cardHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  cardTitle: { fontSize: 16, fontWeight: '600', color: '#1e293b', flex: 1 },
+  scoreBadge: {
+    fontSize: 12,
+    color: '#b45309',
+    backgroundColor: '#fef3c7',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  cardMeta: { fontSize: 12, color: '#6b7280', marginTop: 4, marginBottom: 12 },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  headRow: { backgroundColor: '#f8fafc' },
+  diffRow: { backgroundColor: '#fffbeb' },
+  cell: { flex: 1, fontSize: 13, color: '#475569', paddingHorizontal: 4, textAlign: 'right' },
+  fieldCell: { flex: 0.8, fontWeight: '600', color: '#374151' },
+  headText: { fontWeight: 'bold', color: '#1e293b' },
+  diffText: { color: '#b45309', fontWeight: '600' },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 8, marginTop: 12 },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  dismissButton: { backgroundColor: '#f3f4f6' },
+  mergeButton: { backgroundColor: '#eef2ff' },
+  dismissText: { color: '#6b7280', fontSize: 12, fontWeight: '600' },
+  mergeText: { color: '#6366f1', fontSize: 12, fontWeight: '600' },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateText: { fontSize: 18, color: '#6b7280', marginTop: 16 },
+  emptyStateSubtext: { fontSize: 14, color: '#9ca3af', marginTop: 4 },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    maxWidth: 400,
+    maxHeight: '85%',
+    width: '100%',
+    alignSelf: 'center',
+    elevation: 8,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  modalTitle: { fontSize: 20, fontWeight: 'bold', color: '#1e293b' },
+  closeButton: { padding: 4 },
+  modalBody: { padding: 20 },
+  mergeField: { marginBottom: 16 },
+  label: { fontSize: 14, fontWeight: '600', color: '#374151', marginBottom: 8 },
+  hint: { fontSize: 12, color: '#9ca3af' },
+  sidePicker: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 8 },
+  sideChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#f3f4f6',
+  },
+  sideChipActive: { backgroundColor: '#6366f1' },
+  sideChipText: { fontSize: 12, color: '#374151' },
+  sideChipTextActive: { color: 'white', fontWeight: '600' },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  modalButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  cancelButton: { backgroundColor: '#f3f4f6' },
+  saveButton: { backgroundColor: '#6366f1' },
+  cancelText: { color: '#374151', fontWeight: '600' },
+  saveText: { color: 'white', fontWeight: '600' },
+});
@@ -0,0 +1,393 @@
+// app/(admin)/failures.tsx
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  SectionList,
+  Alert,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { initDb } from '@/lib/localDb/index';
+import { syncManager } from '@/lib/localDb/syncManager';
+import {
+  getDeadLetters,
+  retryDeadLetter,
+  updateDeadLetterPayload,
+  discardDeadLetter,
+  DeadLetter,
+} from '@/lib/localDb/deadLetters';
+import { ThemedView } from '@/components/ThemedView';
+
+const ENTITY_LABELS: Record<string, string> = {
+  students: 'الطلاب',
+  levels: 'المستويات',
+  offices: 'المراكز',
+};
+
+const ERROR_KIND_LABELS: Record<string, string> = {
+  network: 'مشكلة اتصال',
+  dependency: 'بانتظار مزامنة السجل المرتبط',
+  auth: 'انتهاء الجلسة',
+  unique_violation: 'قيمة مكررة',
+  foreign_key_violation: 'مرجع غير موجود',
+  rls_denied: 'صلاحيات غير كافية',
+  validation: 'بيانات غير صالحة',
+  server: 'خطأ في الخادم',
+  unknown: 'خطأ غير معروف',
+};
+
+const OPERATION_LABELS: Record<string, string> = {
+  INSERT: 'إضافة',
+  UPDATE: 'تعديل',
+  DELETE: 'حذف',
+  PURGE: 'حذف نهائي',
+};
+
+export default function FailedSyncsScreen() {
+  const [entries, setEntries] = useState<DeadLetter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingEntry, setEditingEntry] = useState<DeadLetter | null>(null);
+  const [payloadText, setPayloadText] = useState('');
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      await initDb();
+      setEntries(await getDeadLetters());
+    } catch (error: any) {
+      Alert.alert('خطأ', `فشل في جلب العناصر الفاشلة: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  // تجميع العناصر حسب الجدول ورسالة الخطأ
+  const sections = useMemo(() => {
+    const groups = new Map<string, { title: string; error: string; data: DeadLetter[] }>();
+    for (const entry of entries) {
+      const error = entry.last_error || 'خطأ غير معروف';
+      const key = `${entry.entity}|${entry.error_kind}|${error}`;
+      if (!groups.has(key)) {
+        const kind = entry.error_kind ? ` • ${ERROR_KIND_LABELS[entry.error_kind] ?? entry.error_kind}` : '';
+        groups.set(key, { title: `${ENTITY_LABELS[entry.entity] ?? entry.entity}${kind}`, error, data: [] });
+      }
+      groups.get(key)!.data.push(entry);
+    }
+    return Array.from(groups.values());
+  }, [entries]);
+
+  const afterRetry = async () => {
+    await fetchEntries();
+    if (syncManager.isConnected) {
+      syncManager.syncAll().then(fetchEntries).catch(console.error);
+    }
+  };
+
+  const handleRetry = async (entry: DeadLetter) => {
+    try {
+      await retryDeadLetter(entry.id);
+      await afterRetry();
+    } catch (error: any) {
+      Alert.alert('خطأ', error.message);
+    }
+  };
+
+  const handleRetryGroup = async (group: DeadLetter[]) => {
+    try {
+      for (const entry of group) {
+        await retryDeadLetter(entry.id);
+      }
+      await afterRetry();
+    } catch (error: any) {
+      Alert.alert('خطأ', error.message);
+    }
+  };
+
+  const handleDiscard = (entry: DeadLetter) => {
+    Alert.alert(
+      'تأكيد التجاهل',
+      entry.operation === 'INSERT'
+        ? 'لم يصل هذا السجل إلى الخادم أبداً، وسيتم حذفه من الجهاز نهائياً. هل تريد المتابعة؟'
+        : 'سيتم التراجع عن هذا التعديل وإعادة السجل إلى آخر نسخة على الخادم. هل تريد المتابعة؟',
+      [
+        { text: 'إلغاء', style: 'cancel' },
+        {
+          text: 'تجاهل',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await discardDeadLetter(entry.id);
+              await fetchEntries();
+            } catch (error: any) {
+              Alert.alert('خطأ', error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const openEdit = (entry: DeadLetter) => {
+    setEditingEntry(entry);
+    setPayloadText(JSON.stringify(JSON.parse(entry.payload), null, 2));
+  };
+
+  const closeEdit = () => {
+    setEditingEntry(null);
+    setPayloadText('');
+  };
+
+  const saveEdit = async (retry: boolean) => {
+    if (!editingEntry) return;
+
+    let payload: Record<string, any>;
+    try {
+      payload = JSON.parse(payloadText);
+    } catch {
+      Alert.alert('خطأ', 'صيغة البيانات غير صحيحة (JSON)');
+      return;
+    }
+
+    try {
+      await updateDeadLetterPayload(editingEntry.id, payload);
+      if (retry) {
+        await retryDeadLetter(editingEntry.id);
+        await afterRetry();
+      } else {
+        await fetchEntries();
+      }
+      closeEdit();
+    } catch (error: any) {
+      Alert.alert('خطأ', error.message);
+    }
+  };
+
+  const renderEntry = ({ item }: { item: DeadLetter }) => {
+    const payload = JSON.parse(item.payload);
+    return (
+      <View style={styles.entryItem}>
+        <View style={styles.entryInfo}>
+          <Text style={styles.entryName}>{payload.name || item.entity_uuid}</Text>
+          <Text style={styles.entryMeta}>
+            {OPERATION_LABELS[item.operation] ?? item.operation} • {item.retry_count} محاولات
+            {item.dead_at ? ` • ${new Date(item.dead_at).toLocaleString()}` : ''}
+          </Text>
+        </View>
+        <View style={styles.entryActions}>
+          <TouchableOpacity style={[styles.actionButton, styles.retryButton]} onPress={() => handleRetry(item)}>
+            <Ionicons name="refresh-outline" size={18} color="#10b981" />
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionButton, styles.editButton]} onPress={() => openEdit(item)}>
+            <Ionicons name="create-outline" size={18} color="#3b82f6" />
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionButton, styles.deleteButton]} onPress={() => handleDiscard(item)}>
+            <Ionicons name="trash-outline" size={18} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const EmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons name="cloud-done-outline" size={64} color="#d1d5db" />
+      <Text style={styles.emptyStateText}>لا توجد عمليات فاشلة</Text>
+      <Text style={styles.emptyStateSubtext}>وصلت كل التعديلات إلى الخادم</Text>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>المزامنة الفاشلة</Text>
+        <Text style={styles.countText}>{entries.length} عنصر</Text>
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={item => item.id.toString()}
+        renderItem={renderEntry}
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <View style={styles.sectionInfo}>
+              <Text style={styles.sectionTitle}>{section.title} ({section.data.length})</Text>
+              <Text style={styles.sectionError} numberOfLines={2}>{section.error}</Text>
+            </View>
+            <TouchableOpacity style={styles.retryAllButton} onPress={() => handleRetryGroup(section.data)}>
+              <Text style={styles.retryAllText}>إعادة الكل</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        refreshing={loading}
+        onRefresh={fetchEntries}
+        ListEmptyComponent={loading ? null : EmptyState}
+        contentContainerStyle={styles.listContent}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        stickySectionHeadersEnabled={false}
+      />
+
+      <Modal visible={!!editingEntry} animationType="fade" transparent onRequestClose={closeEdit}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>تعديل البيانات المرسلة</Text>
+              <TouchableOpacity style={styles.closeButton} onPress={closeEdit}>
+                <Ionicons name="close" size={24} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.modalBody}>
+              {editingEntry?.last_error && (
+                <Text style={styles.modalError}>{editingEntry.last_error}</Text>
+              )}
+              <TextInput
+                value={payloadText}
+                onChangeText={setPayloadText}
+                style={[styles.input, styles.payloadInput]}
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+                textAlignVertical="top"
+              />
+            </View>
+
+            <View style={styles.modalFooter}>
+              <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={() => saveEdit(false)}>
+                <Text style={styles.cancelText}>حفظ فقط</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.modalButton, styles.saveButton]} onPress={() => saveEdit(true)}>
+                <Text style={styles.saveText}>حفظ وإعادة المحاولة</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#f8fafc' },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  title: { fontSize: 28, fontWeight: 'bold', color: '#1e293b' },
+  countText: { fontSize: 14, color: '#64748b' },
+  listContent: { padding: 16, flexGrow: 1 },
+  separator: { height: 8 },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    marginBottom: 8,
+    gap: 8,
+  },
+  sectionInfo: { flex: 1 },
+  sectionTitle: { fontSize: 16, fontWeight: 'bold', color: '#1e293b' },
+  sectionError: { fontSize: 12, color: '#9f1239', marginTop: 2 },
+  retryAllButton: {
+    backgroundColor: '#ecfdf5',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  retryAllText: { color: '#10b981', fontSize: 12, fontWeight: '600' },
+  entryItem: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+  },
+  entryInfo: { flex: 1 },
+  entryName: { fontSize: 16, fontWeight: '600', color: '#1e293b', marginBottom: 2 },
+  entryMeta: { fontSize: 12, color: '#6b7280' },
+  entryActions: { flexDirection: 'row', gap: 8 },
+  actionButton: { padding: 6, borderRadius: 6 },
+  retryButton: { backgroundColor: '#ecfdf5' },
+  editButton: { backgroundColor: '#eff6ff' },
+  deleteButton: { backgroundColor: '#fef2f2' },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateText: { fontSize: 18, color: '#6b7280', marginTop: 16 },
+  emptyStateSubtext: { fontSize: 14, color: '#9ca3af', marginTop: 4 },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    maxWidth: 400,
+    width: '100%',
+    alignSelf: 'center',
+    elevation: 8,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  modalTitle: { fontSize: 20, fontWeight: 'bold', color: '#1e293b' },
+  closeButton: { padding: 4 },
+  modalBody: { padding: 20 },
+  modalError: { fontSize: 12, color: '#9f1239', marginBottom: 12 },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  payloadInput: { minHeight: 200, fontFamily: 'SpaceMono', textAlign: 'left' },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  modalButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  cancelButton: { backgroundColor: '#f3f4f6' },
+  saveButton: { backgroundColor: '#6366f1' },
+  cancelText: { color: '#374151', fontWeight: '600' },
+  saveText: { color: 'white', fontWeight: '600' },
+});
@@ -0,0 +1,223 @@
+// app/(admin)/recycleBin.tsx
+import { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  Alert,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { initDb } from '@/lib/localDb/index';
+import { syncManager } from '@/lib/localDb/syncManager';
+import {
+  RECYCLE_BIN_RETENTION_DAYS,
+  RecycleBinItem,
+  getRecycleBin,
+  purgeRecycleBin,
+  restoreFromRecycleBin,
+} from '@/lib/localDb/recycleBin';
+import { getProfileNames } from '@/lib/localProfile';
+import { useSyncEvent } from '@/hooks/useSyncEvent';
+import { ThemedView } from '@/components/ThemedView';
+
+const ENTITY_LABELS: Record<string, string> = {
+  students: 'طالب',
+  levels: 'مستوى',
+  offices: 'مركز',
+};
+
+export default function RecycleBinScreen() {
+  const [items, setItems] = useState<RecycleBinItem[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchItems = useCallback(async () => {
+    setLoading(true);
+    try {
+      await initDb();
+      const [deleted, names] = await Promise.all([getRecycleBin(), getProfileNames()]);
+      setItems(deleted);
+      setUserNames(names);
+    } catch (error: any) {
+      Alert.alert('خطأ', `فشل في جلب المحذوفات: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  // حذف أو استعادة من جهاز آخر يصل عبر المزامنة
+  useSyncEvent('change', event => {
+    if (event.origin === 'remote' && ENTITY_LABELS[event.entity]) fetchItems();
+  });
+
+  const syncIfConnected = () => {
+    if (syncManager.isConnected) {
+      syncManager.syncAll().catch(console.error);
+    }
+  };
+
+  const restore = async ({ entity, item }: RecycleBinItem) => {
+    try {
+      await restoreFromRecycleBin(entity, item.id);
+      await fetchItems();
+      syncIfConnected();
+    } catch (error: any) {
+      Alert.alert('خطأ', error.message);
+    }
+  };
+
+  const confirmPurge = () => {
+    Alert.alert(
+      'حذف نهائي',
+      `سيتم حذف السجلات المحذوفة منذ أكثر من ${RECYCLE_BIN_RETENTION_DAYS} يوماً نهائياً من الجهاز ومن الخادم، ولا يمكن التراجع عن ذلك. هل تريد المتابعة؟`,
+      [
+        { text: 'إلغاء', style: 'cancel' },
+        {
+          text: 'حذف نهائي',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const purged = await purgeRecycleBin();
+              await fetchItems();
+              Alert.alert('تم', purged > 0 ? `تم حذف ${purged} سجل نهائياً` : 'لا توجد سجلات تجاوزت مدة الاحتفاظ');
+              syncIfConnected();
+            } catch (error: any) {
+              Alert.alert('خطأ', error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item: entry }: { item: RecycleBinItem }) => {
+    const { entity, item, expired } = entry;
+    const deletedBy = item.deleted_by ? userNames[item.deleted_by] ?? 'مستخدم آخر' : 'غير معروف';
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>{item.name}</Text>
+          <Text style={styles.entityBadge}>{ENTITY_LABELS[entity] ?? entity}</Text>
+        </View>
+        <Text style={styles.cardMeta}>
+          حُذف: {new Date(item.deleted_at!).toLocaleString()} • بواسطة: {deletedBy}
+        </Text>
+        {expired && <Text style={styles.expiredText}>تجاوز مدة الاحتفاظ وسيُحذف نهائياً عند الإفراغ</Text>}
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={[styles.actionButton, styles.restoreButton]} onPress={() => restore(entry)}>
+            <Ionicons name="arrow-undo-outline" size={16} color="#10b981" />
+            <Text style={styles.restoreText}>استعادة</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const EmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons name="trash-outline" size={64} color="#d1d5db" />
+      <Text style={styles.emptyStateText}>سلة المحذوفات فارغة</Text>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.title}>المحذوفات</Text>
+          <Text style={styles.countText}>{items.length} سجل • يُحتفظ بها {RECYCLE_BIN_RETENTION_DAYS} يوماً</Text>
+        </View>
+        <TouchableOpacity style={styles.purgeButton} onPress={confirmPurge}>
+          <Ionicons name="trash-bin-outline" size={20} color="white" />
+          <Text style={styles.purgeButtonText}>إفراغ القديم</Text>
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={items}
+        keyExtractor={entry => `${entry.entity}:${entry.item.uuid}`}
+        renderItem={renderItem}
+        refreshing={loading}
+        onRefresh={fetchItems}
+        ListEmptyComponent={loading ? null : EmptyState}
+        contentContainerStyle={styles.listContent}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#f8fafc' },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  title: { fontSize: 28, fontWeight: 'bold', color: '#1e293b' },
+  countText: { fontSize: 14, color: '#64748b' },
+  purgeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ef4444',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    gap: 8,
+  },
+  purgeButtonText: { color: 'white', fontWeight: '600', fontSize: 14 },
+  listContent: { padding: 16, flexGrow: 1 },
+  separator: { height: 12 },
+  card: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+  },
+  cardHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  cardTitle: { fontSize: 16, fontWeight: '600', color: '#1e293b', flex: 1 },
+  entityBadge: {
+    fontSize: 12,
+    color: '#6366f1',
+    backgroundColor: '#e0e7ff',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  cardMeta: { fontSize: 12, color: '#6b7280', marginTop: 4 },
+  expiredText: { fontSize: 12, color: '#b45309', marginTop: 4 },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 8, marginTop: 12 },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  restoreButton: { backgroundColor: '#ecfdf5' },
+  restoreText: { color: '#10b981', fontSize: 12, fontWeight: '600' },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateText: { fontSize: 18, color: '#6b7280', marginTop: 16 },
+});
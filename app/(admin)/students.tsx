@@ -8,27 +8,33 @@ import { studentsRepository, Student } from '@/lib/localDb/studentsRepository';
 import { officesRepository, Office } from '@/lib/localDb/officesRepository';
 import { levelsRepository, Level } from '@/lib/localDb/levelsRepository';
 import EnhancedDataTable, { Column } from '@/components/EnhancedDataTable';
+import { router } from 'expo-router';
 import { ThemedView } from '@/components/ThemedView';
 import DatePickerInput from '@/components/DatePickerInput';
+import AuditTimelineModal from '@/components/AuditTimelineModal';
+import { useCan } from '@/hooks/useCan';
+import { Capability } from '@/lib/capabilities';
 
 export default function StudentsScreen() {
   const crud = useEnhancedCrud({
     repository: studentsRepository,
     displayName: 'الطالب'
   });
+  const can = useCan();
 
   const [offices, setOffices] = useState<Office[]>([]);
   const [levels, setLevels] = useState<Level[]>([]);
   const [modalVisible, setModalVisible] = useState(false);
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
+  const [historyStudent, setHistoryStudent] = useState<Student | null>(null);
   
   // Form state
   const [newStudentName, setNewStudentName] = useState('');
   const [newStudentBirthDate, setNewStudentBirthDate] = useState('');
   const [newStudentPhone, setNewStudentPhone] = useState('');
   const [newStudentAddress, setNewStudentAddress] = useState('');
-  const [newStudentOfficeId, setNewStudentOfficeId] = useState<number | null>(null);
-  const [newStudentLevelId, setNewStudentLevelId] = useState<number | null>(null);
+  const [newStudentOfficeUuid, setNewStudentOfficeUuid] = useState<string | null>(null);
+  const [newStudentLevelUuid, setNewStudentLevelUuid] = useState<string | null>(null);
 
   const fetchOfficesAndLevels = async () => {
     try {
@@ -114,8 +120,10 @@ export default function StudentsScreen() {
     },
   ];
 
+  // الإجراءات التي لا تسمح بها صلاحيات المستخدم لا تظهر
   const actions = [
     {
+      capability: 'students.update' as Capability,
       label: 'تعديل',
       iconName: 'create-outline' as keyof typeof Ionicons.glyphMap,
       onPress: (student: Student) => {
@@ -124,29 +132,38 @@ export default function StudentsScreen() {
         setNewStudentBirthDate(student.birth_date || '');
         setNewStudentPhone(student.phone || '');
         setNewStudentAddress(student.address || '');
-        setNewStudentOfficeId(student.office_id);
-        setNewStudentLevelId(student.level_id);
+        setNewStudentOfficeUuid(student.office_uuid);
+        setNewStudentLevelUuid(student.level_uuid);
         setModalVisible(true);
       },
       style: { backgroundColor: '#eff6ff' },
       textStyle: { color: '#3b82f6', fontSize: 12, fontWeight: '600' },
     },
     {
+      capability: 'audit.read' as Capability,
+      label: 'السجل',
+      iconName: 'time-outline' as keyof typeof Ionicons.glyphMap,
+      onPress: (student: Student) => setHistoryStudent(student),
+      style: { backgroundColor: '#f5f3ff' },
+      textStyle: { color: '#7c3aed', fontSize: 12, fontWeight: '600' },
+    },
+    {
+      capability: 'students.delete' as Capability,
       label: 'حذف',
       iconName: 'trash-outline' as keyof typeof Ionicons.glyphMap,
       onPress: (student: Student) => crud.deleteItem(student.id),
       style: { backgroundColor: '#fef2f2' },
       textStyle: { color: '#ef4444', fontSize: 12, fontWeight: '600' },
     },
-  ];
+  ].filter(action => can(action.capability));
 
   const resetForm = () => {
     setNewStudentName('');
     setNewStudentBirthDate('');
     setNewStudentPhone('');
     setNewStudentAddress('');
-    setNewStudentOfficeId(null);
-    setNewStudentLevelId(null);
+    setNewStudentOfficeUuid(null);
+    setNewStudentLevelUuid(null);
     setEditingStudent(null);
   };
 
@@ -157,8 +174,8 @@ export default function StudentsScreen() {
         birth_date: newStudentBirthDate || undefined,
         phone: newStudentPhone.trim() || undefined,
         address: newStudentAddress.trim() || undefined,
-        office_id: newStudentOfficeId!,
-        level_id: newStudentLevelId!,
+        office_uuid: newStudentOfficeUuid!,
+        level_uuid: newStudentLevelUuid!,
       };
 
       if (editingStudent) {
@@ -184,16 +201,21 @@ export default function StudentsScreen() {
         onSearchChange={crud.setSearchQuery}
         syncStatus={crud.syncStatus}
         onSync={crud.sync}
+        onSortChange={crud.sortBy}
+        onEndReached={crud.loadMore}
+        onDeadLettersPress={() => router.push('/failures')}
         refreshing={crud.loading}
         onRefresh={crud.refresh}
       />
 
-      <TouchableOpacity
-        style={styles.fab}
-        onPress={() => setModalVisible(true)}
-      >
-        <Ionicons name="add-outline" size={24} color="white" />
-      </TouchableOpacity>
+      {can('students.create') && (
+        <TouchableOpacity
+          style={styles.fab}
+          onPress={() => setModalVisible(true)}
+        >
+          <Ionicons name="add-outline" size={24} color="white" />
+        </TouchableOpacity>
+      )}
 
       <Modal
         visible={modalVisible}
@@ -248,8 +270,8 @@ export default function StudentsScreen() {
                 <Text style={styles.pickerLabel}>المركز *</Text>
                 <View style={styles.pickerWrapper}>
                   <Picker
-                    selectedValue={newStudentOfficeId}
-                    onValueChange={setNewStudentOfficeId}
+                    selectedValue={newStudentOfficeUuid}
+                    onValueChange={setNewStudentOfficeUuid}
                     style={styles.picker}
                   >
                     <Picker.Item label="اختر المركز" value={null} />
@@ -257,7 +279,7 @@ export default function StudentsScreen() {
                       <Picker.Item
                         key={office.id}
                         label={office.name}
-                        value={office.supabase_id || office.id}
+                        value={office.uuid}
                       />
                     ))}
                   </Picker>
@@ -268,8 +290,8 @@ export default function StudentsScreen() {
                 <Text style={styles.pickerLabel}>المستوى *</Text>
                 <View style={styles.pickerWrapper}>
                   <Picker
-                    selectedValue={newStudentLevelId}
-                    onValueChange={setNewStudentLevelId}
+                    selectedValue={newStudentLevelUuid}
+                    onValueChange={setNewStudentLevelUuid}
                     style={styles.picker}
                   >
                     <Picker.Item label="اختر المستوى" value={null} />
@@ -277,7 +299,7 @@ export default function StudentsScreen() {
                       <Picker.Item
                         key={level.id}
                         label={level.name}
-                        value={level.supabase_id || level.id}
+                        value={level.uuid}
                       />
                     ))}
                   </Picker>
@@ -299,7 +321,7 @@ export default function StudentsScreen() {
               <TouchableOpacity
                 style={[styles.button, styles.submitButton]}
                 onPress={handleSubmit}
-                disabled={!newStudentName.trim() || !newStudentOfficeId || !newStudentLevelId}
+                disabled={!newStudentName.trim() || !newStudentOfficeUuid || !newStudentLevelUuid}
               >
                 <Text style={styles.submitButtonText}>
                   {editingStudent ? 'تحديث' : 'إضافة'}
@@ -309,6 +331,13 @@ export default function StudentsScreen() {
           </View>
         </View>
       </Modal>
+
+      <AuditTimelineModal
+        entity="students"
+        recordUuid={historyStudent?.uuid ?? null}
+        title={historyStudent?.name}
+        onClose={() => setHistoryStudent(null)}
+      />
     </ThemedView>
   );
 }
@@ -8,7 +8,9 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/lib/supabase';
-import { getLocalOffices } from '@/lib/officesDb';
+import { officesRepository } from '@/lib/localDb/officesRepository';
+import { ROLES, Role, roleLabel } from '@/lib/capabilities';
+import { createUser, deleteUser, inviteUser, setUserDisabled, updateUser } from '@/lib/userAdmin';
 import SearchBar from '@/components/SearchBar';
 import { Colors } from '@/constants/Colors';
 import { router } from 'expo-router'; // استخدام router للتنقل
@@ -18,7 +20,8 @@ interface User {
   id: string;
   email: string;
   full_name?: string;
-  role: 'admin' | 'user';
+  role: Role;
+  disabled?: boolean;
 }
 
 interface Office {
@@ -52,7 +55,7 @@ export default function UsersScreen() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
-  const [role, setRole] = useState<'admin' | 'user'>('user');
+  const [role, setRole] = useState<Role>('user');
   const [allOffices, setAllOffices] = useState<Office[]>([]);
   const [selectedOfficeIds, setSelectedOfficeIds] = useState<number[]>([]);
   const [isSaving, setIsSaving] = useState(false);
@@ -79,7 +82,7 @@ export default function UsersScreen() {
 
   const fetchOffices = useCallback(async () => {
     try {
-      const localOffices = await getLocalOffices();
+      const localOffices = await officesRepository.getAll();
       setAllOffices(localOffices);
     } catch (error: any) {
       Alert.alert('خطأ', 'فشل في جلب المراكز المحلية: ' + error.message);
@@ -174,13 +177,8 @@ export default function UsersScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              // حذف المستخدم من Supabase
-              const { error } = await supabase.auth.admin.deleteUser(user.id);
-              if (error) throw error;
-              
-              // بما أن RLS تعمل على جدول profiles و user_offices
-              // فإن حذف المستخدم من auth.users سيؤدي تلقائياً إلى حذف السجلات المرتبطة به
-              
+              // الحذف يتم على الخادم (دالة manage-users) لأنه يحتاج مفتاح service_role
+              await deleteUser(user.id);
               Alert.alert('نجاح', 'تم حذف المستخدم بنجاح.');
               fetchUsers();
             } catch (error: any) {
@@ -193,83 +191,41 @@ export default function UsersScreen() {
     );
   };
 
+  // المستخدم المعطل لا يستطيع تسجيل الدخول حتى يُعاد تفعيله، وتبقى بياناته كما هي
+  const handleToggleDisabled = async (user: User) => {
+    try {
+      await setUserDisabled(user.id, !user.disabled);
+      fetchUsers();
+    } catch (error: any) {
+      Alert.alert('خطأ', 'فشل في تغيير حالة المستخدم: ' + error.message);
+      console.error('❌ خطأ في تعطيل المستخدم:', error);
+    }
+  };
+
   /* ---------- دالة الحفظ الرئيسية ---------- */
   const saveUser = async () => {
-    if (!email || !fullName || !role || (!editingUser && !password)) {
+    if (!email || !fullName || !role) {
       Alert.alert('خطأ', 'الرجاء تعبئة جميع الحقول المطلوبة');
       return;
     }
 
     setIsSaving(true);
-    let newUserId = editingUser?.id;
 
     try {
+      // الإنشاء والتعديل عبر دالة manage-users، فلا تتغير جلسة المسؤول الحالية
+      const details = { email, full_name: fullName, role, office_ids: selectedOfficeIds };
       if (editingUser) {
-        // تحديث مستخدم موجود
-        // خطوة 1: تحديث ملف التعريف (profiles)
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .update({
-            full_name: fullName,
-            role: role,
-          })
-          .eq('id', editingUser.id);
-
-        if (profileError) throw profileError;
-
-        // خطوة 2: تحديث جدول الربط (user_offices)
-        const { error: deleteError } = await supabase
-          .from('user_offices')
-          .delete()
-          .eq('user_id', editingUser.id);
-        if (deleteError) throw deleteError;
-
-        if (selectedOfficeIds.length > 0) {
-          const newUserOffices = selectedOfficeIds.map(officeId => ({
-            user_id: editingUser.id,
-            office_id: officeId,
-          }));
-          const { error: insertError } = await supabase
-            .from('user_offices')
-            .insert(newUserOffices);
-          if (insertError) throw insertError;
-        }
-
+        await updateUser(editingUser.id, details);
         Alert.alert('نجاح', 'تم تحديث المستخدم بنجاح.');
-      } else {
-        // إنشاء مستخدم جديد
-        const { data, error: signUpError } = await supabase.auth.signUp({
-          email,
-          password,
-          options: {
-            data: {
-              full_name: fullName,
-              role: role,
-            },
-          },
-        });
-        
-        if (signUpError) {
-          throw signUpError;
-        }
-
-        newUserId = data.user?.id;
-        
-        // ربط المراكز بالمستخدم الجديد
-        if (newUserId && selectedOfficeIds.length > 0) {
-          const newUserOffices = selectedOfficeIds.map(officeId => ({
-            user_id: newUserId,
-            office_id: officeId,
-          }));
-          const { error: insertError } = await supabase
-            .from('user_offices')
-            .insert(newUserOffices);
-          if (insertError) throw insertError;
-        }
-
+      } else if (password) {
+        await createUser({ ...details, password });
         Alert.alert('نجاح', 'تم إنشاء المستخدم بنجاح.');
+      } else {
+        // بدون كلمة مرور تُرسل دعوة، ويختار المستخدم كلمة مروره من الرابط
+        await inviteUser(details);
+        Alert.alert('نجاح', `تم إرسال دعوة إلى ${email}.`);
       }
-      
+
       closeModal();
       fetchUsers();
     } catch (error: any) {
@@ -286,9 +242,8 @@ export default function UsersScreen() {
       <View style={styles.userInfo}>
         <Text style={styles.userName}>{item.full_name || 'لا يوجد اسم'}</Text>
         <Text style={styles.userEmail}>{item.email}</Text>
-        <Text style={styles.userRole}>
-          {item.role === 'admin' ? 'مسؤول' : 'مستخدم عادي'}
-        </Text>
+        <Text style={styles.userRole}>{roleLabel(item.role)}</Text>
+        {item.disabled && <Text style={styles.disabledLabel}>معطل</Text>}
         {currentUser && currentUser.id === item.id && (
           <Text style={styles.currentUserLabel}>(أنت)</Text>
         )}
@@ -299,6 +254,17 @@ export default function UsersScreen() {
           style={[styles.actionButton, styles.editButton]}>
           <Ionicons name="create-outline" size={24} color={Colors.light.tint} />
         </TouchableOpacity>
+        {currentUser?.id !== item.id && (
+          <TouchableOpacity
+            onPress={() => handleToggleDisabled(item)}
+            style={styles.actionButton}>
+            <Ionicons
+              name={item.disabled ? 'lock-open-outline' : 'ban-outline'}
+              size={24}
+              color={item.disabled ? '#10b981' : '#f59e0b'}
+            />
+          </TouchableOpacity>
+        )}
         <TouchableOpacity
           onPress={() => handleDeleteUser(item)}
           style={[styles.actionButton, styles.deleteButton]}>
@@ -365,6 +331,7 @@ export default function UsersScreen() {
                     onChangeText={setPassword}
                     secureTextEntry
                   />
+                  <Text style={styles.hintText}>اتركها فارغة لإرسال دعوة بالبريد الإلكتروني</Text>
                 </>
               )}
               <Text style={styles.label}>الاسم الكامل</Text>
@@ -374,19 +341,17 @@ export default function UsersScreen() {
                 onChangeText={setFullName}
               />
               <Text style={styles.label}>الدور</Text>
+              {/* صلاحيات كل دور محفوظة في Supabase (جدول role_permissions) */}
               <View style={styles.roleContainer}>
-                <TouchableOpacity
-                  style={[styles.roleButton, role === 'admin' && styles.roleActive]}
-                  onPress={() => setRole('admin')}
-                >
-                  <Text style={styles.roleText}>مسؤول</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[styles.roleButton, role === 'user' && styles.roleActive]}
-                  onPress={() => setRole('user')}
-                >
-                  <Text style={styles.roleText}>مستخدم عادي</Text>
-                </TouchableOpacity>
+                {ROLES.map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.roleButton, role === option && styles.roleActive]}
+                    onPress={() => setRole(option)}
+                  >
+                    <Text style={styles.roleText}>{roleLabel(option)}</Text>
+                  </TouchableOpacity>
+                ))}
               </View>
 
               <Text style={styles.label}>المراكز المسموح بها</Text>
@@ -502,6 +467,16 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     alignSelf: 'flex-start',
   },
+  disabledLabel: {
+    fontSize: 12,
+    color: '#b45309',
+    marginTop: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    backgroundColor: '#fef3c7',
+    borderRadius: 8,
+    alignSelf: 'flex-start',
+  },
   actionsContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -550,6 +525,12 @@ const styles = StyleSheet.create({
   modalBody: {
     padding: 16,
   },
+  hintText: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: -12,
+    marginBottom: 16,
+  },
   label: {
     fontSize: 14,
     fontWeight: '600',
@@ -569,7 +550,9 @@ const styles = StyleSheet.create({
   },
   roleContainer: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'flex-start',
+    gap: 8,
     marginBottom: 16,
   },
   roleButton: {
@@ -578,7 +561,6 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     paddingVertical: 10,
     paddingHorizontal: 20,
-    marginRight: 8,
   },
   roleActive: {
     borderColor: '#6366f1',
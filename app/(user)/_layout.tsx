@@ -11,10 +11,13 @@ import TabBarBackground from '@/components/ui/TabBarBackground';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { MaterialCommunityIcons, FontAwesome6, Ionicons } from '@expo/vector-icons';
+import { useCan } from '@/hooks/useCan';
+import { syncManager } from '@/lib/localDb/syncManager';
 
 export default function UserTabLayout() {
   const colorScheme = useColorScheme();
   const [loading, setLoading] = useState(false);
+  const can = useCan();
 
   const handleSignOut = async () => {
     Alert.alert(
@@ -43,6 +46,8 @@ export default function UserTabLayout() {
 
               // بعد تسجيل الخروج من Supabase (إذا كان متصلاً) أو في وضع عدم الاتصال
               // نقوم ببساطة بإعادة توجيه المستخدم إلى صفحة تسجيل الدخول
+              // إيقاف التحديثات الحية حتى لا تبقى قناة المستخدم السابق مفتوحة
+              await syncManager.stopRealtime();
               Alert.alert('تم تسجيل الخروج', 'تم تسجيل خروجك بنجاح.');
               router.replace('/signIn'); // إعادة توجيه إلى شاشة تسجيل الدخول
             } catch (error: any) {
@@ -111,6 +116,8 @@ export default function UserTabLayout() {
       <Tabs.Screen
         name="users"
         options={{
+          // تظهر فقط لمن يدير المستخدمين
+          href: can('users.manage') ? undefined : null,
           headerShown: true,
           title: 'المستخدمين',
           tabBarIcon: ({ color }) => (
@@ -1,5 +1,5 @@
-// app/(tabs)/students.tsx
-import { useEffect, useState, useCallback, useRef } from 'react';
+// app/(user)/students.tsx
+import { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -14,30 +14,17 @@ import {
   Platform,
   ActivityIndicator
 } from 'react-native';
-import { supabase } from '@/lib/supabase';
 import { Ionicons } from '@expo/vector-icons';
-import SearchBar from '@/components/SearchBar';
 import DataTable, { Column } from '@/components/DataTable'; // Import DataTable and Column type
-import {
-  getLocalStudents,
-  insertLocalStudent,
-  updateLocalStudent,
-  deleteLocalStudent,
-  updateLocalStudentSupabaseId,
-  Student,
-  markStudentAsSynced,
-  markRemoteDeletedLocally,
-  updateLocalStudentFieldsBySupabase,
-  insertFromSupabaseIfNotExists,
-  deleteLocalStudentByUuidAndMarkSynced,
-  getStudentByUuid
-} from '@/lib/studentsDb';
-import { getLocalOffices } from '@/lib/officesDb';
-import { getLocalLevels } from '@/lib/levelsDb';
-import { getUnsyncedChanges, clearSyncedChange } from '@/lib/syncQueueDb';
-import NetInfo from '@react-native-community/netinfo';
+import { useEnhancedCrud } from '@/hooks/useEnhancedCrud';
+import { useSyncEvent } from '@/hooks/useSyncEvent';
+import { studentsRepository, Student } from '@/lib/localDb/studentsRepository';
+import { officesRepository, Office } from '@/lib/localDb/officesRepository';
+import { levelsRepository, Level } from '@/lib/localDb/levelsRepository';
 import { Picker } from '@react-native-picker/picker';
 import DatePickerInput from '@/components/DatePickerInput';
+import AuditTimelineModal from '@/components/AuditTimelineModal';
+import { useCan } from '@/hooks/useCan';
 
 const EmptyState = ({ loading }: { loading: boolean }) => (
   <View style={styles.emptyState}>
@@ -54,64 +41,44 @@ const EmptyState = ({ loading }: { loading: boolean }) => (
 );
 
 export default function StudentsScreen() {
-  const [students, setStudents] = useState<Student[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [offices, setOffices] = useState<any[]>([]);
-  const [levels, setLevels] = useState<any[]>([]);
-  const [isSyncing, setIsSyncing] = useState(false);
+  const crud = useEnhancedCrud({
+    repository: studentsRepository,
+    displayName: 'الطالب'
+  });
+  const { isConnected, isSyncing } = crud.syncStatus;
+  const can = useCan();
+
+  const [offices, setOffices] = useState<Office[]>([]);
+  const [levels, setLevels] = useState<Level[]>([]);
 
   // حقول النموذج
   const [name, setName] = useState('');
   const [birthDate, setBirthDate] = useState('');
   const [phone, setPhone] = useState('');
   const [address, setAddress] = useState('');
-  const [selectedOffice, setSelectedOffice] = useState<number | null>(null);
-  const [selectedLevel, setSelectedLevel] = useState<number | null>(null);
+  const [selectedOffice, setSelectedOffice] = useState<string | null>(null);
+  const [selectedLevel, setSelectedLevel] = useState<string | null>(null);
 
   const [modalVisible, setModalVisible] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
-  const [isConnected, setIsConnected] = useState<boolean | null>(null);
-
-  const initialLoadRef = useRef(false);
+  const [historyStudent, setHistoryStudent] = useState<Student | null>(null);
 
   useEffect(() => {
-    let unsubscribeNetInfo: (() => void) | undefined;
-
-    const initialize = async () => {
-      const netState = await NetInfo.fetch();
-      setIsConnected(netState.isConnected);
-
-      unsubscribeNetInfo = NetInfo.addEventListener(state => {
-        setIsConnected(state.isConnected);
-        if (state.isConnected && !isSyncing) {
-          syncDataWithSupabase();
-        }
-      });
-
-      await Promise.all([fetchStudents(), loadOfficesAndLevels()]);
-
-      if (netState.isConnected) {
-        await syncDataWithSupabase();
-      }
-    };
+    loadOfficesAndLevels();
+  }, []);
 
-    if (!initialLoadRef.current) {
-      initialLoadRef.current = true;
-      initialize();
+  // Keep the pickers current when offices or levels change locally or on the server
+  useSyncEvent('change', event => {
+    if (event.entity === 'offices' || event.entity === 'levels') {
+      loadOfficesAndLevels();
     }
-
-    return () => {
-      if (unsubscribeNetInfo) {
-        unsubscribeNetInfo();
-      }
-    };
-  }, [syncDataWithSupabase]);
+  });
 
   const loadOfficesAndLevels = async () => {
     try {
       const [officesData, levelsData] = await Promise.all([
-        getLocalOffices(),
-        getLocalLevels(),
+        officesRepository.getAll(),
+        levelsRepository.getAll(),
       ]);
       setOffices(officesData);
       setLevels(levelsData);
@@ -121,19 +88,6 @@ export default function StudentsScreen() {
     }
   };
 
-  const fetchStudents = useCallback(async () => {
-    setLoading(true);
-    try {
-      const localData = await getLocalStudents();
-      setStudents(localData);
-    } catch (error: any) {
-      console.error('❌ خطأ في جلب بيانات الطلاب:', error);
-      Alert.alert('خطأ', 'فشل في جلب بيانات الطلاب من قاعدة البيانات المحلية.');
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
   const resetForm = () => {
     setName('');
     setBirthDate('');
@@ -164,26 +118,21 @@ export default function StudentsScreen() {
         birth_date: birthDate || undefined,
         phone: phone || undefined,
         address: address || undefined,
-        office_id: selectedOffice,
-        level_id: selectedLevel,
+        office_uuid: selectedOffice,
+        level_uuid: selectedLevel,
       };
 
       if (editingId) {
-        await updateLocalStudent(editingId, studentData);
+        await crud.updateItem(editingId, studentData);
       } else {
-        await insertLocalStudent(studentData);
+        await crud.createItem(studentData);
       }
 
       setModalVisible(false);
       resetForm();
-      await fetchStudents();
-
-      if (isConnected) {
-        await syncDataWithSupabase();
-      }
     } catch (error: any) {
+      // useEnhancedCrud already alerted; keep the modal open so the input can be fixed
       console.error('❌ خطأ أثناء حفظ الطالب:', error);
-      Alert.alert('خطأ', error.message || 'حدث خطأ غير متوقع أثناء الحفظ.');
     }
   };
 
@@ -193,228 +142,11 @@ export default function StudentsScreen() {
     setBirthDate(student.birth_date || '');
     setPhone(student.phone || '');
     setAddress(student.address || '');
-    setSelectedOffice(student.office_id);
-    setSelectedLevel(student.level_id);
+    setSelectedOffice(student.office_uuid);
+    setSelectedLevel(student.level_uuid);
     setModalVisible(true);
   };
 
-  const handleDelete = async (id: number) => {
-    Alert.alert(
-      'تأكيد الحذف',
-      'هل أنت متأكد أنك تريد حذف هذا الطالب؟ سيتم حذفه من الجهاز و من السحابة.',
-      [
-        { text: 'إلغاء', style: 'cancel' },
-        {
-          text: 'حذف',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              await deleteLocalStudent(id);
-              await fetchStudents();
-
-              if (isConnected) {
-                await syncDataWithSupabase();
-              }
-            } catch (error: any) {
-              console.error('❌ خطأ في حذف الطالب:', error);
-              Alert.alert('خطأ في الحذف', error.message || 'حدث خطأ أثناء حذف الطالب.');
-            }
-          },
-        },
-      ]
-    );
-  };
-
-  const syncDataWithSupabase = useCallback(async () => {
-    if (!isConnected) {
-      console.log('📡 غير متصل بالإنترنت، تخطّي المزامنة.');
-      return;
-    }
-    if (isSyncing) {
-      console.log('🔄 المزامنة جارية بالفعل، تخطّي طلب جديد.');
-      return;
-    }
-
-    setIsSyncing(true);
-    console.log('🔄 بدء المزامنة...');
-    try {
-      const unsyncedChanges = await getUnsyncedChanges();
-  if (unsyncedChanges.length > 0) {
-    console.log(`🔄 ${unsyncedChanges.length} تغييرات غير مزامنة موجودة.`);
-    // ... معالجة التغييرات كما هو مكتوب
-  } else {
-    console.log('✅ لا توجد تغييرات غير مزامنة.');
-  }
-
-      for (const change of unsyncedChanges) {
-        if (change.entity !== 'students') continue;
-
-        const payload = JSON.parse(change.payload);
-        let syncSuccessful = false;
-
-        try {
-          switch (change.operation) {
-            case 'INSERT':
-              const { data: insertData, error: insertError } = await supabase
-                .from('students')
-                .insert({
-                  uuid: payload.uuid,
-                  name: payload.name,
-                  birth_date: payload.birth_date || null,
-                  phone: payload.phone || null,
-                  address: payload.address || null,
-                  office_id: payload.office_id,
-                  level_id: payload.level_id,
-                  created_at: payload.created_at,
-                  updated_at: payload.updated_at,
-                  is_synced: true,
-                })
-                .select('id');
-
-              if (insertError) {
-                if (insertError.code === '23505' && insertError.message.includes('students_name_key')) {
-                  const localStudent = await getStudentByUuid(payload.uuid);
-                  if (localStudent) {
-                    Alert.alert(
-                      'تنبيه تكرار',
-                      `الطالب "${payload.name}" موجود بالفعل في السحابة. هل تريد حذف الإدخال المحلي المتكرر؟`,
-                      [
-                        { text: 'إلغاء', style: 'cancel' },
-                        {
-                          text: 'حذف المحلي',
-                          style: 'destructive',
-                          onPress: async () => {
-                            await deleteLocalStudentByUuidAndMarkSynced(payload.uuid);
-                            await clearSyncedChange(change.id);
-                            await fetchStudents();
-                          },
-                        },
-                      ]
-                    );
-                  }
-                  console.warn(`⚠️ تكرار اسم الطالب "${payload.name}" في Supabase. UUID: ${payload.uuid}`);
-                  continue;
-                }
-                throw insertError;
-              }
-
-              if (insertData?.[0]?.id) {
-                await updateLocalStudentSupabaseId(change.entity_local_id, payload.uuid, insertData[0].id);
-                await markStudentAsSynced(change.entity_local_id);
-                syncSuccessful = true;
-              }
-              break;
-
-            case 'UPDATE':
-              const { error: updateError } = await supabase
-                .from('students')
-                .update({
-                  name: payload.name,
-                  birth_date: payload.birth_date || null,
-                  phone: payload.phone || null,
-                  address: payload.address || null,
-                  office_id: payload.office_id,
-                  level_id: payload.level_id,
-                  updated_at: payload.updated_at,
-                  is_synced: true,
-                })
-                .eq('uuid', payload.uuid);
-
-              if (updateError) throw updateError;
-
-              await markStudentAsSynced(change.entity_local_id);
-              syncSuccessful = true;
-              break;
-
-            case 'DELETE':
-              const { error: deleteError } = await supabase
-                .from('students')
-                .update({
-                  deleted_at: payload.deleted_at,
-                  updated_at: payload.updated_at,
-                  is_synced: true,
-                })
-                .eq('uuid', payload.uuid);
-
-              if (deleteError) throw deleteError;
-
-              await markStudentAsSynced(change.entity_local_id);
-              syncSuccessful = true;
-              break;
-
-            default:
-              console.warn(`⁉️ عملية غير معروفة في قائمة الانتظار: ${change.operation}`);
-              break;
-          }
-
-          if (syncSuccessful) {
-            await clearSyncedChange(change.id);
-            console.log(`✅ تمت مزامنة ${change.operation} للطالب UUID: ${payload.uuid}`);
-          }
-        } catch (error: any) {
-          console.error(`❌ خطأ أثناء مزامنة ${change.operation} للطالب UUID: ${payload.uuid}:`, error.message);
-        }
-      }
-
-      await fetchRemoteStudentsAndMerge();
-      await fetchStudents();
-      console.log('✅ انتهت المزامنة بنجاح.');
-    } catch (error: any) {
-      console.error('❌ خطأ غير متوقع أثناء عملية المزامنة:', error.message);
-      Alert.alert('خطأ في المزامنة', 'حدث خطأ أثناء مزامنة البيانات مع Supabase.');
-    } finally {
-      setIsSyncing(false);
-    }
-  }, [isConnected, fetchStudents, isSyncing]);
-
-
-  const fetchRemoteStudentsAndMerge = useCallback(async () => {
-    if (!isConnected) {
-      console.log('📡 غير متصل، تخطّي جلب الطلاب البعيدين.');
-      return;
-    }
-    try {
-      const { data: remoteStudents, error } = await supabase
-        .from('students')
-        .select('*')
-        .order('id', { ascending: true });
-
-      if (error) throw error;
-
-      const localStudents = await getLocalStudents();
-
-      await Promise.all(
-        remoteStudents.map(async remoteStudent => {
-          if (remoteStudent.deleted_at) {
-            const existingLocal = localStudents.find(l => l.uuid === remoteStudent.uuid);
-            if (existingLocal && !existingLocal.deleted_at) {
-              await markRemoteDeletedLocally(remoteStudent.id, remoteStudent.deleted_at);
-            }
-            return;
-          }
-
-          const localStudent = localStudents.find(l => l.uuid === remoteStudent.uuid);
-
-          if (!localStudent) {
-            await insertFromSupabaseIfNotExists(remoteStudent);
-          } else {
-            const remoteUpdate = new Date(remoteStudent.updated_at || remoteStudent.created_at || 0).getTime();
-            const localUpdate = new Date(localStudent.updated_at || localStudent.created_at || 0).getTime();
-
-            if (remoteUpdate > localUpdate) {
-              await updateLocalStudentFieldsBySupabase(remoteStudent);
-            }
-          }
-        })
-      );
-
-      await fetchStudents();
-    } catch (error: any) {
-      console.error('❌ Error fetching remote students:', error.message);
-      Alert.alert('خطأ في جلب بيانات Supabase', error.message);
-    }
-  }, [isConnected, fetchStudents]);
-
   // تعريف الأعمدة لـ DataTable
   const studentTableColumns: Column<Student>[] = [
     {
@@ -492,27 +224,27 @@ export default function StudentsScreen() {
 
       <View style={styles.header}>
         <Text style={styles.title}>الطلاب</Text>
-        <TouchableOpacity
-          style={styles.addButton}
-          onPress={() => {
-            setModalVisible(true);
-            resetForm();
-          }}
-        >
-          <Ionicons name="add-circle" size={24} color="white" />
-          <Text style={styles.addButtonText}>طالب جديد</Text>
-        </TouchableOpacity>
+        {can('students.create') && (
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => {
+              setModalVisible(true);
+              resetForm();
+            }}
+          >
+            <Ionicons name="add-circle" size={24} color="white" />
+            <Text style={styles.addButtonText}>طالب جديد</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* شريط حالة الاتصال والمزامنة */}
       <View style={styles.statusContainer}>
-        {isConnected !== null && (
-          <View style={[styles.connectionStatus, { backgroundColor: isConnected ? '#dcfce7' : '#fee2e2' }]}>
-            <Text style={{ color: isConnected ? '#16a34a' : '#dc2626', fontWeight: 'bold' }}>
-              {isConnected ? 'متصل بالإنترنت' : 'غير متصل بالإنترنت'}
-            </Text>
-          </View>
-        )}
+        <View style={[styles.connectionStatus, { backgroundColor: isConnected ? '#dcfce7' : '#fee2e2' }]}>
+          <Text style={{ color: isConnected ? '#16a34a' : '#dc2626', fontWeight: 'bold' }}>
+            {isConnected ? 'متصل بالإنترنت' : 'غير متصل بالإنترنت'}
+          </Text>
+        </View>
         {isSyncing && (
           <View style={styles.syncStatus}>
             <ActivityIndicator size="small" color="#6366f1" />
@@ -523,29 +255,40 @@ export default function StudentsScreen() {
 
       {/* استخدام مكون DataTable الجديد */}
       <DataTable
-        data={students}
+        data={crud.filteredItems}
         columns={studentTableColumns}
         onRefresh={async () => {
-          await fetchStudents();
-          await syncDataWithSupabase();
+          await Promise.all([crud.refresh(), loadOfficesAndLevels()]);
+          await crud.sync();
         }}
-        refreshing={loading || isSyncing}
-        emptyStateComponent={<EmptyState loading={loading} />}
+        refreshing={crud.loading || isSyncing}
+        onEndReached={crud.loadMore}
+        searchQuery={crud.searchQuery}
+        onSearchChange={crud.setSearchQuery}
+        emptyStateComponent={<EmptyState loading={crud.loading} />}
+        // الإجراءات التي لا تسمح بها صلاحيات المستخدم لا تظهر
         actions={[
-          {
+          ...(can('students.update') ? [{
             label: 'تعديل',
-            iconName: 'create-outline',
+            iconName: 'create-outline' as const,
             onPress: handleEdit,
             style: styles.editButton,
             textStyle: styles.editText,
-          },
-          {
+          }] : []),
+          ...(can('audit.read') ? [{
+            label: 'السجل',
+            iconName: 'time-outline' as const,
+            onPress: (item: Student) => setHistoryStudent(item),
+            style: styles.historyButton,
+            textStyle: styles.historyText,
+          }] : []),
+          ...(can('students.delete') ? [{
             label: 'حذف',
-            iconName: 'trash-outline',
-            onPress: (item) => handleDelete(item.id!),
+            iconName: 'trash-outline' as const,
+            onPress: (item: Student) => crud.deleteItem(item.id),
             style: styles.deleteButton,
             textStyle: styles.deleteText,
-          },
+          }] : []),
         ]}
       />
 
@@ -621,9 +364,9 @@ export default function StudentsScreen() {
                     <Picker.Item label="اختر المركز..." value={null} />
                     {offices.map(office => (
                       <Picker.Item
-                        key={office.supabase_id}
+                        key={office.uuid}
                         label={office.name}
-                        value={office.supabase_id}
+                        value={office.uuid}
                       />
                     ))}
                   </Picker>
@@ -639,9 +382,9 @@ export default function StudentsScreen() {
                     <Picker.Item label="اختر المستوى..." value={null} />
                     {levels.map(level => (
                       <Picker.Item
-                        key={level.supabase_id}
+                        key={level.uuid}
                         label={level.name}
-                        value={level.supabase_id}
+                        value={level.uuid}
                       />
                     ))}
                   </Picker>
@@ -666,6 +409,13 @@ export default function StudentsScreen() {
           </ScrollView>
         </View>
       </Modal>
+
+      <AuditTimelineModal
+        entity="students"
+        recordUuid={historyStudent?.uuid ?? null}
+        title={historyStudent?.name}
+        onClose={() => setHistoryStudent(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -742,14 +492,10 @@ const styles = StyleSheet.create({
   },
   editButton: { backgroundColor: '#eff6ff' },
   deleteButton: { backgroundColor: '#fef2f2' },
+  historyButton: { backgroundColor: '#f5f3ff' },
   editText: { color: '#3b82f6', fontSize: 12, fontWeight: '600' },
+  historyText: { color: '#7c3aed', fontSize: 12, fontWeight: '600' },
   deleteText: { color: '#ef4444', fontSize: 12, fontWeight: '600' },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
   modalOverlay: { flex: 1, backgroundColor: 'rgba(0, 0, 0, 0.5)' },
   modalScroll: { flexGrow: 1, justifyContent: 'center', padding: 20 },
   modalContainer: {
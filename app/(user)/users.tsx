@@ -12,6 +12,8 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { supabase } from '@/lib/supabase';
+import { roleLabel } from '@/lib/capabilities';
+import { syncManager } from '@/lib/localDb/syncManager';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router'; // استورد router
 
@@ -111,6 +113,8 @@ export default function UsersScreen() {
             if (error) {
               Alert.alert('خطأ في تسجيل الخروج', error.message);
             } else {
+              // إيقاف التحديثات الحية حتى لا تبقى قناة المستخدم السابق مفتوحة
+              await syncManager.stopRealtime();
               Alert.alert('تم تسجيل الخروج', 'تم تسجيل خروجك بنجاح.');
               router.replace('/signIn'); // إعادة توجيه إلى شاشة تسجيل الدخول
             }
@@ -126,7 +130,7 @@ export default function UsersScreen() {
       <View style={styles.userInfo}>
         <Text style={styles.userName}>{item.full_name}</Text>
         <Text style={styles.userEmail}>{item.email}</Text>
-        <Text style={styles.userRole}>الدور: {item.role}</Text>
+        <Text style={styles.userRole}>الدور: {roleLabel(item.role)}</Text>
         {currentUser && currentUser.id === item.id && (
           <Text style={styles.currentUserLabel}>(أنت)</Text>
         )}
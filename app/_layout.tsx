@@ -5,15 +5,19 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { useFonts } from 'expo-font';
 import { Stack, router, SplashScreen } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import { initDb } from '@/lib/database';
+import { initDb } from '@/lib/localDb';
+import { syncManager } from '@/lib/localDb/syncManager';
+import { registerDuplicateNamePrompts } from '@/lib/syncPrompts';
 import 'react-native-reanimated';
 import { supabase } from '@/lib/supabase';
+import { fetchRoleCapabilities, homeRoute } from '@/lib/capabilities';
+import { saveLocalPermissions } from '@/lib/localProfile';
+import { createSessionFromUrl, isAuthRedirect, isSettingPassword } from '@/lib/authLinks';
+import * as Linking from 'expo-linking';
 import { Alert, View, ActivityIndicator, Text, StyleSheet } from 'react-native';
 import NetInfo from '@react-native-community/netinfo';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
-import { fetchAndSyncRemoteOffices } from '@/lib/officesDb';
-import { fetchAndSyncRemoteLevels } from '@/lib/levelsDb';
 
 // منع إخفاء شاشة البداية تلقائياً حتى يكون التطبيق جاهزاً
 SplashScreen.preventAutoHideAsync();
@@ -32,6 +36,19 @@ export default function RootLayout() {
   useEffect(() => {
     let authSubscription: { data: { subscription: any } } | null = null;
     let netInfoUnsubscribe: (() => void) | undefined;
+    const unregisterSyncPrompts = registerDuplicateNamePrompts();
+
+    // روابط الدعوة واستعادة كلمة المرور تحمل جلسة؛ تسجيل الدخول بها يوجّه إلى شاشة تعيين كلمة المرور
+    const openAuthLink = async (url: string | null) => {
+      if (!isAuthRedirect(url)) return;
+      try {
+        await createSessionFromUrl(url);
+      } catch (error: any) {
+        console.error('❌ رابط مصادقة غير صالح:', error);
+        Alert.alert('الرابط غير صالح', 'انتهت صلاحية الرابط أو استُخدم من قبل، اطلب رابطاً جديداً.');
+      }
+    };
+    const linkSubscription = Linking.addEventListener('url', ({ url }) => openAuthLink(url));
 
     const initializeAppAndDetermineRoute = async () => {
       try {
@@ -45,6 +62,7 @@ export default function RootLayout() {
         authSubscription = supabase.auth.onAuthStateChange(async (event, session) => {
           console.log('🔑 حدث تغيير حالة المصادقة:', event);
           if (event === 'SIGNED_OUT') {
+            await syncManager.stopRealtime();
             await determineTargetRoute(null);
           } else if (event === 'SIGNED_IN') {
             await determineTargetRoute(session?.user);
@@ -53,6 +71,9 @@ export default function RootLayout() {
           }
         });
 
+        // التطبيق فُتح من رابط دعوة أو استعادة
+        await openAuthLink(await Linking.getInitialURL());
+
         const { data: { session }, error: sessionError } = await supabase.auth.getSession();
         if (sessionError) {
           console.error("❌ خطأ في الحصول على الجلسة عند بدء التشغيل:", sessionError.message);
@@ -78,6 +99,8 @@ export default function RootLayout() {
 
     return () => {
       if (netInfoUnsubscribe) netInfoUnsubscribe();
+      unregisterSyncPrompts();
+      linkSubscription.remove();
       if (authSubscription?.data?.subscription) {
         authSubscription.data.subscription.unsubscribe();
       }
@@ -87,18 +110,23 @@ export default function RootLayout() {
   const determineTargetRoute = async (user: any | null) => {
     let targetRoute = '/signIn';
 
-    // بغض النظر عن المستخدم، قم بمزامنة جميع المراكز والمستويات إذا كان متصلاً
+    // المستخدم القادم من رابط دعوة أو استعادة يختار كلمة مروره أولاً
+    if (user && isSettingPassword()) {
+        setFinalTargetRoute('/setPassword');
+        isInitialRedirectDone.current = true;
+        setIsAppReady(true);
+        return;
+    }
+
+    // بغض النظر عن المستخدم، اسحب آخر التغييرات من Supabase إذا كان متصلاً
     const netState = await NetInfo.fetch();
     if (netState.isConnected) {
-        console.log('🔄 مزامنة جميع المراكز والمستويات من Supabase (RLS معطلة)...');
+        console.log('🔄 سحب التغييرات من Supabase...');
         try {
-            await Promise.all([
-                fetchAndSyncRemoteOffices(), 
-                fetchAndSyncRemoteLevels()  
-            ]);
-            console.log('✅ تمت مزامنة جميع المراكز والمستويات بنجاح.');
+            await syncManager.pullRemoteChanges();
+            console.log('✅ تم سحب التغييرات بنجاح.');
         } catch (syncError) {
-            console.error('❌ خطأ في مزامنة المراكز والمستويات الأولية:', syncError);
+            console.error('❌ خطأ في سحب التغييرات الأولية:', syncError);
         }
     }
 
@@ -115,7 +143,10 @@ export default function RootLayout() {
             if (profileError) {
                 console.error("❌ خطأ في جلب ملف التعريف:", profileError.message);
             } else {
-                targetRoute = profile.role === 'admin' ? '/(admin)' : '/(user)';
+                // الصلاحيات تحدد الشاشات المتاحة، وتُحفظ محلياً للعمل دون اتصال
+                const capabilities = await fetchRoleCapabilities(profile.role);
+                await saveLocalPermissions(user.id, profile.role, capabilities);
+                targetRoute = homeRoute(new Set(capabilities));
             }
         } catch (profileCatchError) {
             console.error("❌ خطأ غير متوقع في جلب ملف التعريف:", profileCatchError);
@@ -150,6 +181,7 @@ export default function RootLayout() {
       <Stack>
         <Stack.Screen name="signIn" options={{ headerShown: false }} />
         <Stack.Screen name="signUp" options={{ headerShown: false }} />
+        <Stack.Screen name="setPassword" options={{ headerShown: false }} />
         <Stack.Screen name="(admin)" options={{ headerShown: false }} />
         <Stack.Screen name="(user)" options={{ headerShown: false }} />
         <Stack.Screen name="+not-found" />
@@ -0,0 +1,211 @@
+// app/setPassword.tsx
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/lib/supabase';
+import { finishPasswordSetup } from '@/lib/authLinks';
+import { fetchRoleCapabilities, homeRoute } from '@/lib/capabilities';
+import { saveLocalProfile } from '@/lib/localProfile';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// تصل إليها روابط الدعوة واستعادة كلمة المرور بعد أن يفتحها _layout.tsx ويُنشئ الجلسة
+export default function SetPasswordScreen() {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [showPassword, setShowPassword] = useState(false);
+
+  const handleSetPassword = async () => {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      Alert.alert('خطأ', `يجب أن تتكون كلمة المرور من ${MIN_PASSWORD_LENGTH} أحرف على الأقل`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      Alert.alert('خطأ', 'كلمتا المرور غير متطابقتين');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        Alert.alert('انتهت صلاحية الرابط', 'اطلب رابطاً جديداً ثم حاول مرة أخرى.');
+        router.replace('/signIn');
+        return;
+      }
+
+      const { data, error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+      finishPasswordSetup();
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', data.user.id)
+        .single();
+      if (profileError) throw profileError;
+
+      // كما في تسجيل الدخول: حفظ الملف محلياً ليعمل الدخول دون اتصال بكلمة المرور الجديدة
+      const capabilities = await fetchRoleCapabilities(profile.role);
+      await saveLocalProfile({
+        supabase_id: data.user.id,
+        email: data.user.email,
+        role: profile.role,
+        full_name: data.user.user_metadata?.full_name,
+        avatar_url: data.user.user_metadata?.avatar_url,
+        password_hash: password,
+        permissions: capabilities,
+      });
+
+      Alert.alert('تم', 'تم تعيين كلمة المرور بنجاح.');
+      router.replace(homeRoute(new Set(capabilities)));
+    } catch (error: any) {
+      Alert.alert('خطأ', error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#f8fafc" />
+      <View style={styles.content}>
+        <Ionicons name="key-outline" size={80} color="#6366f1" />
+        <Text style={styles.title}>تعيين كلمة المرور</Text>
+        <Text style={styles.subtitle}>اختر كلمة مرور لحسابك لتتمكن من تسجيل الدخول</Text>
+
+        <View style={styles.passwordInputContainer}>
+          <TextInput
+            style={styles.passwordInput}
+            placeholder="كلمة المرور الجديدة"
+            placeholderTextColor="#9ca3af"
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry={!showPassword}
+            editable={!loading}
+          />
+          <TouchableOpacity onPress={() => setShowPassword(!showPassword)}>
+            <Ionicons
+              name={showPassword ? 'eye-off-outline' : 'eye-outline'}
+              size={24}
+              color="#9ca3af"
+            />
+          </TouchableOpacity>
+        </View>
+        <TextInput
+          style={styles.input}
+          placeholder="تأكيد كلمة المرور"
+          placeholderTextColor="#9ca3af"
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+          secureTextEntry={!showPassword}
+          editable={!loading}
+        />
+
+        <TouchableOpacity
+          style={[styles.button, loading && styles.buttonDisabled]}
+          onPress={handleSetPassword}
+          disabled={loading}
+        >
+          {loading ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <Text style={styles.buttonText}>حفظ كلمة المرور</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    width: '90%',
+    maxWidth: 400,
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    elevation: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1e293b',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 24,
+    textAlign: 'center',
+  },
+  input: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 16,
+    fontSize: 16,
+    color: '#1e293b',
+    textAlign: 'right',
+  },
+  passwordInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    marginBottom: 16,
+    paddingHorizontal: 16,
+  },
+  passwordInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+    textAlign: 'right',
+  },
+  button: {
+    width: '100%',
+    backgroundColor: '#6366f1',
+    borderRadius: 8,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    backgroundColor: '#a5b4fc',
+  },
+});
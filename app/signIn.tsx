@@ -16,7 +16,10 @@ import { supabase } from '@/lib/supabase';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { saveLocalProfile, getLocalProfile, verifyOfflinePassword } from '@/lib/localProfile';
+import { fetchRoleCapabilities, homeRoute, profileCapabilities } from '@/lib/capabilities';
 import * as SecureStore from 'expo-secure-store';
+import { SET_PASSWORD_URL } from '@/lib/authLinks';
+import { ALLOW_SELF_SIGNUP } from '@/constants/Auth';
 
 const LAST_EMAIL_KEY = 'last_signIn_email';
 
@@ -52,7 +55,7 @@ export default function SignInScreen() {
         // ------- وضع عدم الاتصال -------
         const verified = await verifyOfflinePassword(email, password);
         if (verified) {
-          router.replace(verified.role === 'admin' ? '/(admin)' : '/(user)');
+          router.replace(homeRoute(profileCapabilities(verified)));
         } else {
           Alert.alert('بيانات غير صحيحة أو غير متوفرة محليًا');
         }
@@ -78,6 +81,8 @@ export default function SignInScreen() {
           .single();
 
         if (profile) {
+          const capabilities = await fetchRoleCapabilities(profile.role);
+
           // حفظ ملف تعريف المستخدم محلياً للاستخدام في وضع عدم الاتصال
           await saveLocalProfile({
             supabase_id: data.user.id,
@@ -86,14 +91,11 @@ export default function SignInScreen() {
   full_name: data.user.user_metadata?.full_name,
   avatar_url: data.user.user_metadata?.avatar_url,
             password_hash: password,
+            permissions: capabilities,
           });
 
-          // إعادة توجيه المستخدم بناءً على الدور
-          if (profile.role === 'admin') {
-            router.replace('/(admin)');
-          } else {
-            router.replace('/(user)');
-          }
+          // إعادة توجيه المستخدم بناءً على صلاحيات دوره
+          router.replace(homeRoute(new Set(capabilities)));
         } else {
           Alert.alert('خطأ', 'فشل في جلب ملف تعريف المستخدم.');
         }
@@ -105,6 +107,31 @@ export default function SignInScreen() {
     }
   };
 
+  // يُرسل رابط استعادة إلى البريد، ويفتح التطبيق على شاشة تعيين كلمة المرور
+  const handleForgotPassword = async () => {
+    if (!email) {
+      Alert.alert('نسيت كلمة المرور', 'أدخل بريدك الإلكتروني أولاً ثم اضغط مرة أخرى.');
+      return;
+    }
+
+    const netState = await NetInfo.fetch();
+    if (!netState.isConnected) {
+      Alert.alert('نسيت كلمة المرور', 'تحتاج إلى اتصال بالإنترنت لاستعادة كلمة المرور.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo: SET_PASSWORD_URL });
+      if (error) throw error;
+      Alert.alert('تم الإرسال', `أرسلنا رابط استعادة كلمة المرور إلى ${email}.`);
+    } catch (error: any) {
+      Alert.alert('خطأ', error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="dark-content" />
@@ -149,12 +176,18 @@ export default function SignInScreen() {
             <Text style={styles.buttonText}>تسجيل الدخول</Text>
           )}
         </TouchableOpacity>
-        <View style={styles.signUpContainer}>
-          <Text style={styles.signUpText}>ليس لديك حساب؟</Text>
-          <TouchableOpacity onPress={() => router.push('/signUp')}>
-            <Text style={styles.signUpLink}>إنشاء حساب</Text>
-          </TouchableOpacity>
-        </View>
+        <TouchableOpacity onPress={handleForgotPassword} disabled={loading}>
+          <Text style={styles.signUpLink}>نسيت كلمة المرور؟</Text>
+        </TouchableOpacity>
+        {/* التسجيل الذاتي معطل افتراضياً، والحسابات تُنشأ بدعوة من المسؤول */}
+        {ALLOW_SELF_SIGNUP && (
+          <View style={styles.signUpContainer}>
+            <Text style={styles.signUpText}>ليس لديك حساب؟</Text>
+            <TouchableOpacity onPress={() => router.push('/signUp')}>
+              <Text style={styles.signUpLink}>إنشاء حساب</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
     </SafeAreaView>
   );
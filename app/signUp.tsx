@@ -14,6 +14,7 @@ import {
 import { supabase } from '@/lib/supabase';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { ALLOW_SELF_SIGNUP } from '@/constants/Auth';
 
 export default function SignUpScreen() {
   const [email, setEmail] = useState('');
@@ -44,6 +45,23 @@ export default function SignUpScreen() {
     }
   };
 
+  // الرابط المباشر إلى الشاشة يبقى متاحاً، لذا تُعرض رسالة بدل النموذج
+  if (!ALLOW_SELF_SIGNUP) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#f8fafc" />
+        <View style={styles.content}>
+          <Ionicons name="mail-outline" size={80} color="#6366f1" />
+          <Text style={styles.title}>التسجيل بالدعوة فقط</Text>
+          <Text style={styles.noticeText}>اطلب من المسؤول إرسال دعوة إلى بريدك الإلكتروني.</Text>
+          <TouchableOpacity style={styles.linkButton} onPress={() => router.replace('/signIn')}>
+            <Text style={styles.linkText}>العودة إلى تسجيل الدخول</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="dark-content" backgroundColor="#f8fafc" />
@@ -176,6 +194,12 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  noticeText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
   linkButton: {
     marginTop: 10,
     padding: 10,
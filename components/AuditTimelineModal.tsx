@@ -0,0 +1,167 @@
+// components/AuditTimelineModal.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, Modal, FlatList, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  AuditEntry,
+  auditFieldLabel,
+  getAuditTrail,
+  getReferencedNames,
+} from '@/lib/localDb/auditLog';
+import { getProfileNames } from '@/lib/localProfile';
+import { useSyncEvent } from '@/hooks/useSyncEvent';
+
+interface AuditTimelineModalProps {
+  entity: string;
+  // The record whose history is shown; null hides the modal
+  recordUuid: string | null;
+  title?: string;
+  onClose: () => void;
+}
+
+const OPERATION_LABELS: Record<string, string> = {
+  INSERT: 'إنشاء',
+  UPDATE: 'تعديل',
+  DELETE: 'حذف',
+};
+
+// إرجاع سجل محذوف يُسجَّل كتعديل يمسح تاريخ الحذف
+const operationLabel = (entry: AuditEntry) =>
+  entry.operation === 'UPDATE' && entry.changes.deleted_at?.after === null
+    ? 'استعادة'
+    : OPERATION_LABELS[entry.operation] ?? entry.operation;
+
+// سجل التعديلات على سجل واحد، الأحدث أولاً
+export default function AuditTimelineModal({ entity, recordUuid, title, onClose }: AuditTimelineModalProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [referenceNames, setReferenceNames] = useState<Record<string, string>>({});
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+
+  const loadEntries = useCallback(async () => {
+    if (!recordUuid) return;
+    try {
+      const trail = await getAuditTrail(entity, recordUuid);
+      const [references, names] = await Promise.all([getReferencedNames(entity, trail), getProfileNames()]);
+      setEntries(trail);
+      setReferenceNames(references);
+      setUserNames(names);
+    } catch (error) {
+      console.error('Failed to load audit trail:', error);
+    }
+  }, [entity, recordUuid]);
+
+  useEffect(() => {
+    setEntries([]);
+    loadEntries();
+  }, [loadEntries]);
+
+  // تعديلات تصل أثناء عرض السجل
+  useSyncEvent('change', event => {
+    if (event.entity === entity && event.uuid === recordUuid) loadEntries();
+  });
+
+  const displayValue = (field: string, value: any) => {
+    if (value === null || value === undefined) return '—';
+    if (field === 'deleted_at') return new Date(value).toLocaleString();
+    return referenceNames[value] ?? String(value);
+  };
+
+  const renderEntry = ({ item: entry }: { item: AuditEntry }) => {
+    const fields = Object.keys(entry.changes).filter(field => field !== 'deleted_at');
+    const actor = entry.actor
+      ? userNames[entry.actor] ?? 'مستخدم آخر'
+      : entry.origin === 'remote' ? 'من جهاز آخر' : 'غير معروف';
+
+    return (
+      <View style={styles.entry}>
+        <View style={styles.entryHeader}>
+          <Text style={styles.operationBadge}>{operationLabel(entry)}</Text>
+          <Text style={styles.entryMeta}>
+            {new Date(entry.created_at).toLocaleString()} • {actor}
+          </Text>
+        </View>
+        {entry.operation !== 'INSERT' && fields.map(field => (
+          <Text key={field} style={styles.changeText}>
+            {auditFieldLabel(entity, field)}: {displayValue(field, entry.changes[field].before)}
+            {' ← '}
+            {displayValue(field, entry.changes[field].after)}
+          </Text>
+        ))}
+        {entry.origin === 'remote' && <Text style={styles.originText}>وصل عبر المزامنة</Text>}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={recordUuid !== null} animationType="fade" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>سجل التعديلات{title ? `: ${title}` : ''}</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Ionicons name="close" size={24} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+
+          <FlatList
+            data={entries}
+            keyExtractor={entry => entry.uuid}
+            renderItem={renderEntry}
+            contentContainerStyle={styles.listContent}
+            ListEmptyComponent={<Text style={styles.emptyText}>لا توجد تعديلات مسجلة</Text>}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    maxWidth: 400,
+    maxHeight: '85%',
+    width: '100%',
+    alignSelf: 'center',
+    elevation: 8,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  modalTitle: { fontSize: 18, fontWeight: 'bold', color: '#1e293b', flex: 1 },
+  closeButton: { padding: 4 },
+  listContent: { padding: 20 },
+  entry: {
+    borderRightWidth: 3,
+    borderRightColor: '#c7d2fe',
+    paddingRight: 12,
+    paddingVertical: 4,
+    marginBottom: 16,
+  },
+  entryHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 4 },
+  operationBadge: {
+    fontSize: 12,
+    color: '#6366f1',
+    backgroundColor: '#e0e7ff',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  entryMeta: { fontSize: 12, color: '#6b7280', flex: 1 },
+  changeText: { fontSize: 13, color: '#475569', marginTop: 2 },
+  originText: { fontSize: 11, color: '#9ca3af', marginTop: 4 },
+  emptyText: { fontSize: 14, color: '#6b7280', textAlign: 'center', paddingVertical: 24 },
+});
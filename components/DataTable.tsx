@@ -41,6 +41,10 @@ type DataTableProps<T> = {
   onRefresh?: () => void;
   initialSortColumn?: keyof T;
   initialSortOrder?: 'asc' | 'desc';
+  onEndReached?: () => void;
+  // عند تمريرهما يتم البحث خارج الجدول (في قاعدة البيانات) بدلاً من تصفية البيانات المعروضة
+  searchQuery?: string;
+  onSearchChange?: (query: string) => void;
 };
 
 // مكون آمن لعرض النصوص فقط إذا كانت قيمة نصية
@@ -61,16 +65,21 @@ function DataTable<T extends { id?: number | string } | { uuid?: string }>({
   onRefresh,
   initialSortColumn = null,
   initialSortOrder = 'asc',
+  onEndReached,
+  searchQuery: externalSearchQuery,
+  onSearchChange,
 }: DataTableProps<T>) {
   const [sortedData, setSortedData] = useState<T[]>(data);
   const [sortColumn, setSortColumn] = useState<keyof T | null>(initialSortColumn);
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>(initialSortOrder);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [localSearchQuery, setLocalSearchQuery] = useState('');
+  const searchQuery = onSearchChange ? externalSearchQuery ?? '' : localSearchQuery;
+  const setSearchQuery = onSearchChange ?? setLocalSearchQuery;
 
   const applySortingAndFiltering = useCallback(() => {
     let currentData = [...data];
 
-    if (searchQuery.trim() !== '') {
+    if (!onSearchChange && searchQuery.trim() !== '') {
       const lowerCaseQuery = searchQuery.toLowerCase();
       currentData = currentData.filter(item =>
         columns.some(col => {
@@ -103,7 +112,7 @@ function DataTable<T extends { id?: number | string } | { uuid?: string }>({
       });
     }
     setSortedData(currentData);
-  }, [data, columns, searchQuery, sortColumn, sortOrder]);
+  }, [data, columns, searchQuery, sortColumn, sortOrder, onSearchChange]);
 
   useEffect(() => {
     applySortingAndFiltering();
@@ -264,6 +273,8 @@ function DataTable<T extends { id?: number | string } | { uuid?: string }>({
             }
             refreshing={refreshing}
             onRefresh={onRefresh}
+            onEndReached={onEndReached}
+            onEndReachedThreshold={0.5}
             contentContainerStyle={styles.flatListContent}
             ItemSeparatorComponent={() => <View style={styles.rowSeparator} />}
             scrollEnabled
@@ -0,0 +1,195 @@
+// components/DependentsDeleteModal.tsx
+import React, { useEffect, useState } from 'react';
+import { View, Text, Modal, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BaseEntity, BaseRepository, DeleteOptions, DependentCount } from '@/lib/localDb/baseRepository';
+
+interface DependentsDeleteModalProps<T extends BaseEntity> {
+  // The record whose delete was refused; null hides the modal
+  itemId: number | null;
+  dependents: DependentCount[];
+  repository: BaseRepository<T>;
+  displayName: string;
+  onConfirm: (options: DeleteOptions) => void;
+  onCancel: () => void;
+}
+
+type Choice = 'reassign' | 'cascade';
+
+// يظهر عند حذف سجل ترتبط به سجلات أخرى: نقلها إلى سجل آخر أو حذفها معه، والإلغاء يُبقي السجل
+export default function DependentsDeleteModal<T extends BaseEntity>({
+  itemId,
+  dependents,
+  repository,
+  displayName,
+  onConfirm,
+  onCancel
+}: DependentsDeleteModalProps<T>) {
+  const [choice, setChoice] = useState<Choice>('reassign');
+  const [targets, setTargets] = useState<T[]>([]);
+  const [targetUuid, setTargetUuid] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (itemId === null) return;
+    setChoice('reassign');
+    setTargetUuid(null);
+    repository.getAll()
+      .then(items => setTargets(items.filter(item => item.id !== itemId)))
+      .catch(error => console.error('Failed to load reassign targets:', error));
+  }, [itemId, repository]);
+
+  const canConfirm = choice === 'cascade' || !!targetUuid;
+
+  const confirm = () => {
+    if (choice === 'reassign' && targetUuid) {
+      onConfirm({ strategy: 'reassign', reassignTo: targetUuid });
+    } else if (choice === 'cascade') {
+      onConfirm({ strategy: 'cascade' });
+    }
+  };
+
+  return (
+    <Modal visible={itemId !== null} animationType="fade" transparent onRequestClose={onCancel}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>حذف {displayName}</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onCancel}>
+              <Ionicons name="close" size={24} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody}>
+            <Text style={styles.warningText}>
+              ترتبط بهذا {displayName} سجلات أخرى:{' '}
+              {dependents.map(d => `${d.displayName}: ${d.count}`).join('، ')}
+            </Text>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>ماذا تريد أن تفعل بها؟</Text>
+              <View style={styles.chips}>
+                <TouchableOpacity
+                  style={[styles.chip, choice === 'reassign' && styles.chipActive]}
+                  onPress={() => setChoice('reassign')}
+                >
+                  <Text style={[styles.chipText, choice === 'reassign' && styles.chipTextActive]}>
+                    نقلها إلى {displayName} آخر
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.chip, choice === 'cascade' && styles.chipDanger]}
+                  onPress={() => setChoice('cascade')}
+                >
+                  <Text style={[styles.chipText, choice === 'cascade' && styles.chipTextActive]}>
+                    حذفها مع {displayName}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.hint}>للإبقاء على {displayName} اضغط إلغاء</Text>
+            </View>
+
+            {choice === 'reassign' && (
+              <View style={styles.field}>
+                <Text style={styles.label}>{displayName} الجديد</Text>
+                {targets.length === 0 ? (
+                  <Text style={styles.hint}>لا يوجد {displayName} آخر لنقل السجلات إليه</Text>
+                ) : (
+                  <View style={styles.chips}>
+                    {targets.map(target => (
+                      <TouchableOpacity
+                        key={target.uuid}
+                        style={[styles.chip, targetUuid === target.uuid && styles.chipActive]}
+                        onPress={() => setTargetUuid(target.uuid)}
+                      >
+                        <Text style={[styles.chipText, targetUuid === target.uuid && styles.chipTextActive]}>
+                          {target.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+              </View>
+            )}
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={onCancel}>
+              <Text style={styles.cancelText}>إلغاء</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.deleteButton, !canConfirm && styles.disabledButton]}
+              onPress={confirm}
+              disabled={!canConfirm}
+            >
+              <Text style={styles.deleteText}>حذف</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    maxWidth: 400,
+    maxHeight: '85%',
+    width: '100%',
+    alignSelf: 'center',
+    elevation: 8,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  modalTitle: { fontSize: 20, fontWeight: 'bold', color: '#1e293b' },
+  closeButton: { padding: 4 },
+  modalBody: { padding: 20 },
+  warningText: { fontSize: 14, color: '#b45309', marginBottom: 16 },
+  field: { marginBottom: 16 },
+  label: { fontSize: 14, fontWeight: '600', color: '#374151', marginBottom: 8 },
+  hint: { fontSize: 12, color: '#9ca3af' },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 8 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#f3f4f6',
+  },
+  chipActive: { backgroundColor: '#6366f1' },
+  chipDanger: { backgroundColor: '#ef4444' },
+  chipText: { fontSize: 12, color: '#374151' },
+  chipTextActive: { color: 'white', fontWeight: '600' },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  modalButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  cancelButton: { backgroundColor: '#f3f4f6' },
+  deleteButton: { backgroundColor: '#ef4444' },
+  disabledButton: { opacity: 0.5 },
+  cancelText: { color: '#374151', fontWeight: '600' },
+  deleteText: { color: 'white', fontWeight: '600' },
+});
@@ -41,13 +41,18 @@ type EnhancedDataTableProps<T> = {
     isConnected: boolean;
     isSyncing: boolean;
     pendingCount: number;
+    deadLetterCount?: number;
     lastSync: Date | null;
   };
   onSync: () => void;
+  onDeadLettersPress?: () => void;
   onRefresh?: () => void;
   refreshing?: boolean;
   initialSortColumn?: keyof T;
   initialSortOrder?: 'asc' | 'desc';
+  // When given, sorting is left to the data source (e.g. SQLite) instead of done on the loaded rows
+  onSortChange?: (column: keyof T, order: 'asc' | 'desc') => void;
+  onEndReached?: () => void;
 };
 
 const SafeText = ({ children }: { children: React.ReactNode }) => {
@@ -67,10 +72,13 @@ function EnhancedDataTable<T extends { id?: number | string } | { uuid?: string
   onSearchChange,
   syncStatus,
   onSync,
+  onDeadLettersPress,
   onRefresh,
   refreshing = false,
   initialSortColumn = null,
   initialSortOrder = 'asc',
+  onSortChange,
+  onEndReached,
 }: EnhancedDataTableProps<T>) {
   const [sortedData, setSortedData] = useState<T[]>(data);
   const [sortColumn, setSortColumn] = useState<keyof T | null>(initialSortColumn);
@@ -79,7 +87,7 @@ function EnhancedDataTable<T extends { id?: number | string } | { uuid?: string
   const applySorting = useCallback(() => {
     let currentData = [...data];
 
-    if (sortColumn) {
+    if (sortColumn && !onSortChange) {
       currentData.sort((a, b) => {
         const aValue = a[sortColumn];
         const bValue = b[sortColumn];
@@ -99,7 +107,7 @@ function EnhancedDataTable<T extends { id?: number | string } | { uuid?: string
       });
     }
     setSortedData(currentData);
-  }, [data, sortColumn, sortOrder]);
+  }, [data, sortColumn, sortOrder, onSortChange]);
 
   useEffect(() => {
     applySorting();
@@ -108,12 +116,10 @@ function EnhancedDataTable<T extends { id?: number | string } | { uuid?: string
   const handleSortPress = (columnKey: keyof T, sortable: boolean | undefined) => {
     if (!sortable) return;
 
-    if (sortColumn === columnKey) {
-      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortColumn(columnKey);
-      setSortOrder('asc');
-    }
+    const nextOrder = sortColumn === columnKey && sortOrder === 'asc' ? 'desc' : 'asc';
+    setSortColumn(columnKey);
+    setSortOrder(nextOrder);
+    onSortChange?.(columnKey, nextOrder);
   };
 
   const calculateTotalContentWidth = useCallback(() => {
@@ -242,7 +248,9 @@ function EnhancedDataTable<T extends { id?: number | string } | { uuid?: string
         isConnected={syncStatus.isConnected}
         isSyncing={syncStatus.isSyncing}
         pendingCount={syncStatus.pendingCount}
+        deadLetterCount={syncStatus.deadLetterCount}
         lastSync={syncStatus.lastSync}
+        onDeadLettersPress={onDeadLettersPress}
         onSyncPress={onSync}
       />
       
@@ -275,6 +283,8 @@ function EnhancedDataTable<T extends { id?: number | string } | { uuid?: string
                 tintColor="#6366f1"
               />
             }
+            onEndReached={onEndReached}
+            onEndReachedThreshold={0.5}
             contentContainerStyle={styles.flatListContent}
             ItemSeparatorComponent={() => <View style={styles.rowSeparator} />}
             scrollEnabled
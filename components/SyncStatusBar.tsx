@@ -7,20 +7,25 @@ interface SyncStatusBarProps {
   isConnected: boolean;
   isSyncing: boolean;
   pendingCount: number;
+  deadLetterCount?: number;
   lastSync: Date | null;
   onSyncPress: () => void;
+  onDeadLettersPress?: () => void;
 }
 
 export default function SyncStatusBar({
   isConnected,
   isSyncing,
   pendingCount,
+  deadLetterCount = 0,
   lastSync,
-  onSyncPress
+  onSyncPress,
+  onDeadLettersPress
 }: SyncStatusBarProps) {
   const getStatusColor = () => {
     if (!isConnected) return '#ef4444'; // red
     if (isSyncing) return '#f59e0b'; // amber
+    if (deadLetterCount > 0) return '#9f1239'; // rose
     if (pendingCount > 0) return '#f59e0b'; // amber
     return '#10b981'; // green
   };
@@ -28,6 +33,7 @@ export default function SyncStatusBar({
   const getStatusText = () => {
     if (!isConnected) return 'غير متصل';
     if (isSyncing) return 'جاري المزامنة...';
+    if (deadLetterCount > 0) return `${deadLetterCount} فشلت مزامنتها`;
     if (pendingCount > 0) return `${pendingCount} في الانتظار`;
     return 'متزامن';
   };
@@ -35,6 +41,7 @@ export default function SyncStatusBar({
   const getStatusIcon = () => {
     if (!isConnected) return 'cloud-offline-outline';
     if (isSyncing) return 'sync-outline';
+    if (deadLetterCount > 0) return 'alert-circle-outline';
     if (pendingCount > 0) return 'time-outline';
     return 'cloud-done-outline';
   };
@@ -55,13 +62,17 @@ export default function SyncStatusBar({
 
   return (
     <View style={[styles.container, { backgroundColor: getStatusColor() }]}>
-      <View style={styles.statusInfo}>
+      <TouchableOpacity
+        style={styles.statusInfo}
+        onPress={onDeadLettersPress}
+        disabled={!onDeadLettersPress || deadLetterCount === 0}
+      >
         <Ionicons name={getStatusIcon()} size={16} color="white" />
         <Text style={styles.statusText}>{getStatusText()}</Text>
         {lastSync && (
           <Text style={styles.lastSyncText}>• {formatLastSync()}</Text>
         )}
-      </View>
+      </TouchableOpacity>
       
       {isConnected && !isSyncing && (
         <TouchableOpacity onPress={onSyncPress} style={styles.syncButton}>
@@ -0,0 +1,8 @@
+import Constants from 'expo-constants';
+
+/**
+ * Whether anyone may register from the app, set by `expo.extra.allowSelfSignup` in app.json.
+ * Off by default: admins invite users instead. Switch off "Allow new users to sign up" in the
+ * Supabase Auth settings as well, or the API still accepts sign-ups; invites keep working.
+ */
+export const ALLOW_SELF_SIGNUP = Constants.expoConfig?.extra?.allowSelfSignup === true;
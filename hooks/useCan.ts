@@ -0,0 +1,23 @@
+// hooks/useCan.ts
+import { useCallback, useEffect, useState } from 'react';
+import { Capability, getCapabilities } from '@/lib/capabilities';
+import { useSyncEvent } from '@/hooks/useSyncEvent';
+
+// can('students.create') for the signed-in user; nothing is allowed until the cache is read
+export function useCan(): (capability: Capability) => boolean {
+  const [capabilities, setCapabilities] = useState<Set<Capability>>(new Set());
+
+  const load = useCallback(() => {
+    getCapabilities()
+      .then(setCapabilities)
+      .catch(error => console.error('Failed to load capabilities:', error));
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useSyncEvent('accessChanged', load);
+
+  return useCallback((capability: Capability) => capabilities.has(capability), [capabilities]);
+}
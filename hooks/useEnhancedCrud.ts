@@ -1,49 +1,202 @@
 // hooks/useEnhancedCrud.ts
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { Alert } from 'react-native';
-import { BaseRepository, BaseEntity } from '@/lib/localDb/baseRepository';
+import {
+  BaseRepository,
+  BaseEntity,
+  DeleteOptions,
+  DependentCount,
+  DependentRecordsError,
+  DuplicateRecordError
+} from '@/lib/localDb/baseRepository';
 import { syncManager } from '@/lib/localDb/syncManager';
+import { getDeadLetterCount } from '@/lib/localDb/deadLetters';
+import { ENTITY_REFERENCES } from '@/lib/localDb/dependencies';
 import { initDb } from '@/lib/localDb/index';
+import { useSyncEvent } from '@/hooks/useSyncEvent';
+import { QueryCursor, QueryPage, SortDirection } from '@/lib/localDb/queryBuilder';
+
+// Beyond this many changed rows in one burst (e.g. a full pull) the list is reloaded instead
+const ROW_REFRESH_LIMIT = 50;
 
 export interface EnhancedCrudConfig<T extends BaseEntity> {
   repository: BaseRepository<T>;
   displayName: string;
+  // Rows loaded per page; more are read from SQLite as the list scrolls
+  pageSize?: number;
+}
+
+export interface CrudSort<T> {
+  column: keyof T & string;
+  direction: SortDirection;
 }
 
+const DEFAULT_PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
 export function useEnhancedCrud<T extends BaseEntity>(config: EnhancedCrudConfig<T>) {
+  const pageSize = config.pageSize ?? DEFAULT_PAGE_SIZE;
   const [items, setItems] = useState<T[]>([]);
-  const [filteredItems, setFilteredItems] = useState<T[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [ready, setReady] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [sort, setSort] = useState<CrudSort<T> | null>(null);
+  // A delete refused because other records point at the item; the screen asks what to do with them
+  const [blockedDelete, setBlockedDelete] = useState<{ id: number; dependents: DependentCount[] } | null>(null);
   const [syncStatus, setSyncStatus] = useState({
     isConnected: false,
     isSyncing: false,
     pendingCount: 0,
+    deadLetterCount: 0,
     lastSync: null as Date | null
   });
 
+  // Paging state read by callbacks that must not be recreated on every page
+  const cursorRef = useRef<QueryCursor | null>(null);
+  const loadedCountRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+  const itemsRef = useRef<T[]>([]);
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  // Search runs in SQLite, so wait for the user to stop typing
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedSearch(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const buildQuery = useCallback(() => {
+    const query = config.repository.query().search(appliedSearch);
+    if (sort) query.orderBy(sort.column, sort.direction);
+    return query;
+  }, [config.repository, appliedSearch, sort]);
+
+  const sortBy = useCallback((column: keyof T, direction: SortDirection) => {
+    setSort({ column: column as keyof T & string, direction });
+  }, []);
+
+  const applyPage = useCallback((page: QueryPage<T>, append: boolean) => {
+    cursorRef.current = page.nextCursor;
+    setHasMore(page.nextCursor !== null);
+    setItems(prev => {
+      const next = append ? [...prev, ...page.items] : page.items;
+      loadedCountRef.current = next.length;
+      return next;
+    });
+  }, []);
+
   const fetchData = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await config.repository.getAll();
-      setItems(data);
-      setFilteredItems(data);
+      const [page, count] = await Promise.all([
+        buildQuery().limit(pageSize).page(),
+        buildQuery().count()
+      ]);
+      applyPage(page, false);
+      setTotalCount(count);
     } catch (error: any) {
       console.error(`Failed to fetch ${config.displayName}:`, error);
       Alert.alert('خطأ', `فشل في جلب البيانات: ${error.message}`);
     } finally {
       setLoading(false);
     }
-  }, [config.repository, config.displayName]);
+  }, [buildQuery, applyPage, pageSize, config.displayName]);
+
+  // Reload the rows already on screen without the loading state, for refreshes the user did not ask for
+  const reloadItems = useCallback(async () => {
+    try {
+      const [page, count] = await Promise.all([
+        buildQuery().limit(Math.max(loadedCountRef.current, pageSize)).page(),
+        buildQuery().count()
+      ]);
+      applyPage(page, false);
+      setTotalCount(count);
+    } catch (error) {
+      console.error(`Failed to reload ${config.displayName}:`, error);
+    }
+  }, [buildQuery, applyPage, pageSize, config.displayName]);
+
+  const loadMore = useCallback(async () => {
+    if (!cursorRef.current || loadingMoreRef.current) return;
+
+    loadingMoreRef.current = true;
+    try {
+      applyPage(await buildQuery().after(cursorRef.current).limit(pageSize).page(), true);
+    } catch (error) {
+      console.error(`Failed to load more ${config.displayName}:`, error);
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  }, [buildQuery, applyPage, pageSize, config.displayName]);
+
+  const changedUuids = useRef(new Set<string>());
+  const reloadAll = useRef(false);
+  const flushTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Re-read only the rows that changed; events arriving together are applied in one pass
+  const flushChanges = useCallback(async () => {
+    flushTimer.current = null;
+    const uuids = [...changedUuids.current];
+    changedUuids.current.clear();
+
+    if (reloadAll.current || uuids.length > ROW_REFRESH_LIMIT) {
+      reloadAll.current = false;
+      await reloadItems();
+      return;
+    }
+
+    try {
+      // Same filters as the list, so an edited row that no longer matches the search drops out
+      const rows = await buildQuery().whereIn('uuid' as keyof T & string, uuids).all();
+      const byUuid = new Map(rows.map(row => [row.uuid, row]));
+      const loaded = new Set(itemsRef.current.map(item => item.uuid));
+
+      // A row new to the list has a place in the sort order only SQLite knows
+      if (rows.some(row => !loaded.has(row.uuid))) {
+        await reloadItems();
+        return;
+      }
+
+      setItems(prev => {
+        const next = prev
+          .filter(item => !uuids.includes(item.uuid) || byUuid.has(item.uuid))
+          .map(item => byUuid.get(item.uuid) ?? item);
+        loadedCountRef.current = next.length;
+        return next;
+      });
+      setTotalCount(await buildQuery().count());
+    } catch (error) {
+      console.error(`Failed to refresh ${config.displayName}:`, error);
+    }
+  }, [buildQuery, config.displayName, reloadItems]);
+
+  const scheduleFlush = useCallback(() => {
+    if (!flushTimer.current) {
+      flushTimer.current = setTimeout(flushChanges, 50);
+    }
+  }, [flushChanges]);
+
+  useEffect(() => () => {
+    if (flushTimer.current) clearTimeout(flushTimer.current);
+  }, []);
 
   const updateSyncStatus = useCallback(async () => {
     try {
-      const pendingCount = await syncManager.getPendingSyncCount();
+      const [pendingCount, deadLetterCount] = await Promise.all([
+        syncManager.getPendingSyncCount(),
+        getDeadLetterCount()
+      ]);
       setSyncStatus(prev => ({
         ...prev,
         isConnected: syncManager.isConnected,
         isSyncing: syncManager.isSyncing,
-        pendingCount
+        pendingCount,
+        deadLetterCount
       }));
     } catch (error) {
       console.error('Failed to update sync status:', error);
@@ -57,13 +210,13 @@ export function useEnhancedCrud<T extends BaseEntity>(config: EnhancedCrudConfig
     }
 
     try {
-      setSyncStatus(prev => ({ ...prev, isSyncing: true }));
+      // Rows and the sync badge follow the sync's own events; only the outcome is reported here
       const result = await syncManager.syncAll();
       
       if (result.success) {
-        setSyncStatus(prev => ({ ...prev, lastSync: new Date() }));
-        await fetchData(); // Refresh data after sync
-        if (result.synced > 0) {
+        if (result.conflicts > 0) {
+          Alert.alert('تعارض في البيانات', `يوجد ${result.conflicts} سجل معدل على الجهاز وعلى الخادم معاً ويحتاج إلى مراجعة`);
+        } else if (result.synced > 0) {
           Alert.alert('نجح', `تم مزامنة ${result.synced} عنصر بنجاح`);
         }
       } else {
@@ -71,18 +224,49 @@ export function useEnhancedCrud<T extends BaseEntity>(config: EnhancedCrudConfig
       }
     } catch (error: any) {
       Alert.alert('خطأ', `فشل في المزامنة: ${error.message}`);
-    } finally {
-      setSyncStatus(prev => ({ ...prev, isSyncing: false }));
-      await updateSyncStatus();
     }
-  }, [fetchData, updateSyncStatus]);
+  }, []);
+
+  useSyncEvent('change', event => {
+    if (event.entity === config.repository.entity) {
+      changedUuids.current.add(event.uuid);
+      scheduleFlush();
+    } else if (ENTITY_REFERENCES[config.repository.entity]?.some(ref => ref.parent === event.entity)) {
+      // Rows show their parents' names, so a parent change touches any number of them
+      reloadAll.current = true;
+      scheduleFlush();
+    }
+  });
+
+  useSyncEvent('pushed', event => {
+    if (event.entity === config.repository.entity) {
+      changedUuids.current.add(event.uuid);
+      scheduleFlush();
+    }
+  });
+
+  useSyncEvent('syncStart', () => {
+    setSyncStatus(prev => ({ ...prev, isSyncing: true }));
+  });
+
+  useSyncEvent('syncEnd', result => {
+    setSyncStatus(prev => ({ ...prev, isSyncing: false, lastSync: result.success ? new Date() : prev.lastSync }));
+  });
+
+  useSyncEvent('queueChanged', () => {
+    updateSyncStatus();
+  });
+
+  useSyncEvent('connectivity', ({ isConnected }) => {
+    setSyncStatus(prev => ({ ...prev, isConnected }));
+  });
 
   // Initialize and setup
   useEffect(() => {
     const initialize = async () => {
       try {
         await initDb();
-        await fetchData();
+        setReady(true);
         await updateSyncStatus();
         
         // Auto-sync if connected
@@ -96,36 +280,40 @@ export function useEnhancedCrud<T extends BaseEntity>(config: EnhancedCrudConfig
 
     initialize();
 
-    // Update sync status periodically
-    const interval = setInterval(updateSyncStatus, 5000);
-    return () => clearInterval(interval);
-  }, [fetchData, updateSyncStatus, performSync]);
+    // Lists follow edits made elsewhere as soon as they are merged locally
+    syncManager.startRealtime();
+    return () => {
+      syncManager.releaseRealtime().catch(console.error);
+    };
+  }, [updateSyncStatus, performSync]);
 
-  // Filter items based on search query
+  // First page again whenever the search or the sort changes
   useEffect(() => {
-    if (searchQuery.trim() === '') {
-      setFilteredItems(items);
+    if (ready) fetchData();
+  }, [ready, fetchData]);
+
+  // A duplicate offers to show the record it collides with instead of just refusing
+  const alertWriteError = (error: any) => {
+    if (error instanceof DuplicateRecordError) {
+      Alert.alert('سجل مكرر', error.message, [
+        { text: 'إغلاق', style: 'cancel' },
+        { text: 'عرض السجل الموجود', onPress: () => setSearchQuery(error.existing.name) },
+      ]);
     } else {
-      setFilteredItems(
-        items.filter(item =>
-          item.name.toLowerCase().includes(searchQuery.toLowerCase())
-        )
-      );
+      Alert.alert('خطأ', error.message);
     }
-  }, [searchQuery, items]);
+  };
 
   const createItem = async (data: Partial<T>) => {
     try {
       await config.repository.insert(data);
-      await fetchData();
-      await updateSyncStatus();
       
       // Auto-sync if connected
       if (syncManager.isConnected) {
         setTimeout(performSync, 1000);
       }
     } catch (error: any) {
-      Alert.alert('خطأ', error.message);
+      alertWriteError(error);
       throw error;
     }
   };
@@ -133,20 +321,50 @@ export function useEnhancedCrud<T extends BaseEntity>(config: EnhancedCrudConfig
   const updateItem = async (id: number, data: Partial<T>) => {
     try {
       await config.repository.update(id, data);
-      await fetchData();
-      await updateSyncStatus();
       
       // Auto-sync if connected
       if (syncManager.isConnected) {
         setTimeout(performSync, 1000);
       }
     } catch (error: any) {
-      Alert.alert('خطأ', error.message);
+      alertWriteError(error);
       throw error;
     }
   };
 
+  const removeItem = async (id: number, options?: DeleteOptions) => {
+    try {
+      await config.repository.delete(id, options);
+      setBlockedDelete(null);
+
+      // Auto-sync if connected
+      if (syncManager.isConnected) {
+        setTimeout(performSync, 1000);
+      }
+    } catch (error: any) {
+      if (error instanceof DependentRecordsError) {
+        // Something started pointing at the item since it was checked
+        setBlockedDelete({ id, dependents: error.dependents });
+      } else {
+        Alert.alert('خطأ', error.message);
+      }
+    }
+  };
+
   const deleteItem = async (id: number) => {
+    let dependents: DependentCount[];
+    try {
+      dependents = await config.repository.getDependents(id);
+    } catch (error: any) {
+      Alert.alert('خطأ', error.message);
+      return;
+    }
+
+    if (dependents.length > 0) {
+      setBlockedDelete({ id, dependents });
+      return;
+    }
+
     Alert.alert(
       'تأكيد الحذف',
       `هل تريد حذف هذا ${config.displayName}؟`,
@@ -155,25 +373,19 @@ export function useEnhancedCrud<T extends BaseEntity>(config: EnhancedCrudConfig
         {
           text: 'حذف',
           style: 'destructive',
-          onPress: async () => {
-            try {
-              await config.repository.delete(id);
-              await fetchData();
-              await updateSyncStatus();
-              
-              // Auto-sync if connected
-              if (syncManager.isConnected) {
-                setTimeout(performSync, 1000);
-              }
-            } catch (error: any) {
-              Alert.alert('خطأ', error.message);
-            }
-          }
+          onPress: () => removeItem(id)
         }
       ]
     );
   };
 
+  // Delete the blocked item after all, moving or deleting what points at it
+  const confirmBlockedDelete = async (options: DeleteOptions) => {
+    if (blockedDelete) await removeItem(blockedDelete.id, options);
+  };
+
+  const cancelBlockedDelete = () => setBlockedDelete(null);
+
   const refresh = async () => {
     await fetchData();
     await updateSyncStatus();
@@ -181,7 +393,13 @@ export function useEnhancedCrud<T extends BaseEntity>(config: EnhancedCrudConfig
 
   return {
     items,
-    filteredItems,
+    // Filtering happens in SQLite; kept for screens written against the in-memory filter
+    filteredItems: items,
+    totalCount,
+    hasMore,
+    loadMore,
+    sort,
+    sortBy,
     loading,
     searchQuery,
     setSearchQuery,
@@ -189,6 +407,9 @@ export function useEnhancedCrud<T extends BaseEntity>(config: EnhancedCrudConfig
     createItem,
     updateItem,
     deleteItem,
+    blockedDelete,
+    confirmBlockedDelete,
+    cancelBlockedDelete,
     refresh,
     sync: performSync
   };
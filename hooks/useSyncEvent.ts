@@ -0,0 +1,14 @@
+// hooks/useSyncEvent.ts
+import { useEffect, useRef } from 'react';
+import { syncEvents, SyncEventName, SyncEventHandler } from '@/lib/localDb/events';
+
+// Subscribe for the lifetime of the component; the latest handler is always the one called
+export function useSyncEvent<K extends SyncEventName>(name: K, handler: SyncEventHandler<K>) {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => syncEvents.on(name, payload => handlerRef.current(payload)), [name]);
+}
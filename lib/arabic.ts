@@ -0,0 +1,38 @@
+// lib/arabic.ts
+
+// Harakat, madda/hamza marks, superscript alef and tatweel: dropped entirely
+const STRIPPED = [
+  '\u064B', '\u064C', '\u064D', '\u064E', '\u064F', '\u0650', '\u0651', '\u0652',
+  '\u0653', '\u0654', '\u0655', '\u0670', '\u0640',
+];
+
+// Letters written interchangeably in names: أحمد / احمد, فاطمة / فاطمه, مصطفى / مصطفي
+const FOLDED: [string, string][] = [
+  ['\u0623', '\u0627'], // أ -> ا
+  ['\u0625', '\u0627'], // إ -> ا
+  ['\u0622', '\u0627'], // آ -> ا
+  ['\u0671', '\u0627'], // ٱ -> ا
+  ['\u0624', '\u0648'], // ؤ -> و
+  ['\u0626', '\u064A'], // ئ -> ي
+  ['\u0649', '\u064A'], // ى -> ي
+  ['\u0629', '\u0647'], // ة -> ه
+  ['\u06CC', '\u064A'], // Persian ی -> ي
+  ['\u06A9', '\u0643'], // Persian ک -> ك
+];
+
+// Arabic-Indic (٠-٩) and Persian (۰-۹) digits, as typed on different keyboards
+const DIGITS: [string, string][] = Array.from({ length: 10 }, (_, digit): [string, string][] => [
+  [String.fromCharCode(0x0660 + digit), String(digit)],
+  [String.fromCharCode(0x06F0 + digit), String(digit)],
+]).flat();
+
+const REPLACEMENTS: [string, string][] = [...STRIPPED.map(char => [char, ''] as [string, string]), ...FOLDED, ...DIGITS];
+
+// The form text is compared in, so spelling variants of the same word match
+export const normalizeArabic = (text: string): string =>
+  REPLACEMENTS.reduce((result, [from, to]) => result.split(from).join(to), text).replace(/\s+/g, ' ').trim();
+
+// The same character mapping as a SQL expression, for triggers and queries over stored text.
+// Whitespace is left as is; the FTS tokenizer splits on it anyway.
+export const normalizeArabicSql = (expression: string): string =>
+  REPLACEMENTS.reduce((sql, [from, to]) => `REPLACE(${sql}, '${from}', '${to}')`, expression);
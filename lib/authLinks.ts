@@ -0,0 +1,51 @@
+// lib/authLinks.ts
+import * as Linking from 'expo-linking';
+import { supabase } from './supabase';
+
+// Where invite and recovery emails send the user back; must be in the Auth redirect allow list
+export const SET_PASSWORD_URL = Linking.createURL('/setPassword');
+
+// Set while a user who came from an invite or recovery link still has to choose a password
+let settingPassword = false;
+
+export const isSettingPassword = (): boolean => settingPassword;
+
+export const finishPasswordSetup = (): void => {
+  settingPassword = false;
+};
+
+// Supabase returns the session, or the error, in the fragment: #access_token=…&refresh_token=…&type=invite
+const fragmentParams = (url: string): Record<string, string> => {
+  const fragment = url.split('#')[1] ?? '';
+  return Object.fromEntries(
+    fragment.split('&').filter(Boolean).map(pair => {
+      const [key, value = ''] = pair.split('=');
+      return [decodeURIComponent(key), decodeURIComponent(value.replace(/\+/g, ' '))];
+    })
+  );
+};
+
+export const isAuthRedirect = (url: string | null): url is string => {
+  if (!url) return false;
+  const params = fragmentParams(url);
+  return !!(params.access_token || params.error_description);
+};
+
+// Sign in with the session from an auth link; invite and recovery links then need a new password
+export const createSessionFromUrl = async (url: string): Promise<void> => {
+  const params = fragmentParams(url);
+  if (params.error_description) {
+    throw new Error(params.error_description);
+  }
+
+  // Set before the session, since signing in already triggers routing
+  settingPassword = params.type === 'invite' || params.type === 'recovery';
+  const { error } = await supabase.auth.setSession({
+    access_token: params.access_token,
+    refresh_token: params.refresh_token,
+  });
+  if (error) {
+    settingPassword = false;
+    throw error;
+  }
+};
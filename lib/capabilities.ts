@@ -0,0 +1,77 @@
+// lib/capabilities.ts
+import { supabase } from './supabase';
+import { LocalProfile, getLocalProfile, saveLocalPermissions } from './localProfile';
+import { syncEvents } from './localDb/events';
+
+// What a role may do; granted per role in the server's role_permissions table
+export type Capability =
+  | 'students.create'
+  | 'students.update'
+  | 'students.delete'
+  | 'students.merge'
+  // Sees the students of every office, not only the assigned ones
+  | 'offices.all'
+  | 'levels.manage'
+  | 'offices.manage'
+  | 'users.manage'
+  | 'audit.read'
+  | 'recycleBin.manage'
+  | 'sync.manage';
+
+export type Role = 'admin' | 'supervisor' | 'office_manager' | 'data_entry' | 'user';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'مسؤول',
+  supervisor: 'مشرف',
+  office_manager: 'مدير مركز',
+  data_entry: 'مدخل بيانات',
+  user: 'مستخدم عادي',
+};
+
+export const ROLES = Object.keys(ROLE_LABELS) as Role[];
+
+export const roleLabel = (role: string | null | undefined): string =>
+  ROLE_LABELS[role as Role] ?? ROLE_LABELS.user;
+
+// The capabilities cached with a profile; none without a profile. The allowed_offices view reads
+// the same JSON, so office scoping and these checks can't disagree.
+export const profileCapabilities = (profile: LocalProfile | null): Set<Capability> => {
+  if (!profile?.permissions) return new Set();
+  return new Set(JSON.parse(profile.permissions) as Capability[]);
+};
+
+export const getCapabilities = async (): Promise<Set<Capability>> =>
+  profileCapabilities(await getLocalProfile());
+
+export const fetchRoleCapabilities = async (role: string): Promise<Capability[]> => {
+  const { data, error } = await supabase
+    .from('role_permissions')
+    .select('permission')
+    .eq('role', role);
+  if (error) throw error;
+  return (data ?? []).map(row => row.permission as Capability);
+};
+
+// Re-read the signed-in user's role and its capabilities from the server into the local cache
+export const refreshCapabilities = async (): Promise<void> => {
+  const profile = await getLocalProfile();
+  if (!profile) return;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', profile.supabase_id)
+    .single();
+  if (error) throw error;
+
+  const capabilities = await fetchRoleCapabilities(data.role);
+  await saveLocalPermissions(profile.supabase_id, data.role, capabilities);
+  syncEvents.emit('accessChanged', { userId: profile.supabase_id });
+};
+
+// Users who manage or oversee more than their own students get the drawer with every screen
+export const homeRoute = (capabilities: Set<Capability>): '/(admin)' | '/(user)' =>
+  (['offices.all', 'students.merge', 'levels.manage', 'offices.manage', 'users.manage'] as Capability[])
+    .some(capability => capabilities.has(capability))
+    ? '/(admin)'
+    : '/(user)';
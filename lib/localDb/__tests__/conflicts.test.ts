@@ -0,0 +1,65 @@
+// lib/localDb/__tests__/conflicts.test.ts
+import { isRemoteChangedSince, isSameContent, resolveConflict } from '../conflicts';
+
+jest.mock('../index', () => ({ getDb: jest.fn() }));
+
+const base = {
+  uuid: 'a', name: 'أحمد', phone: '0770', address: 'بغداد', birth_date: null,
+  office_id: 1, level_id: 1, updated_at: '2026-10-01T10:00:00Z',
+};
+
+describe('resolveConflict', () => {
+  const local = { ...base, phone: '0771', updated_at: '2026-10-02T10:00:00Z' };
+  const remote = { ...base, address: 'البصرة', updated_at: '2026-10-03T10:00:00Z' };
+
+  it('follows the fixed policies', () => {
+    expect(resolveConflict('students', local, remote, base, 'server-wins')).toEqual({ resolution: 'remote' });
+    expect(resolveConflict('students', local, remote, base, 'client-wins')).toEqual({ resolution: 'local' });
+    expect(resolveConflict('students', local, remote, base, 'manual')).toEqual({ resolution: null });
+  });
+
+  it('keeps the newer side on last-writer-wins, the server on a tie', () => {
+    expect(resolveConflict('students', local, remote, base, 'last-writer-wins')).toEqual({ resolution: 'remote' });
+    expect(resolveConflict('students', remote, local, base, 'last-writer-wins')).toEqual({ resolution: 'local' });
+    expect(resolveConflict('students', local, { ...remote, updated_at: local.updated_at }, base, 'last-writer-wins'))
+      .toEqual({ resolution: 'remote' });
+  });
+
+  it('merges fields changed on different sides', () => {
+    const outcome = resolveConflict('students', local, remote, base, 'merge');
+
+    expect(outcome).toEqual({
+      resolution: 'merged',
+      merged: expect.objectContaining({ name: 'أحمد', phone: '0771', address: 'البصرة' }),
+    });
+  });
+
+  it('leaves a merge to a human when both sides changed a field, or one deleted', () => {
+    const bothChanged = { ...remote, phone: '0772' };
+    expect(resolveConflict('students', local, bothChanged, base, 'merge')).toEqual({ resolution: null });
+    expect(resolveConflict('students', local, { ...remote, deleted_at: remote.updated_at }, base, 'merge'))
+      .toEqual({ resolution: null });
+    expect(resolveConflict('students', local, remote, null, 'merge')).toEqual({ resolution: null });
+  });
+
+  it('treats empty strings and missing values alike when merging', () => {
+    const blank = { ...base, address: '' };
+    expect(resolveConflict('students', { ...local, address: null }, remote, blank, 'merge'))
+      .toEqual({ resolution: 'merged', merged: expect.objectContaining({ address: 'البصرة' }) });
+  });
+});
+
+describe('isRemoteChangedSince', () => {
+  it('compares instants, not strings', () => {
+    expect(isRemoteChangedSince('2026-10-01T10:00:00.000Z', { updated_at: '2026-10-01T13:00:00+03:00' })).toBe(false);
+    expect(isRemoteChangedSince('2026-10-01T10:00:00Z', { updated_at: '2026-10-01T10:00:01Z' })).toBe(true);
+    expect(isRemoteChangedSince(null, base)).toBe(true);
+  });
+});
+
+describe('isSameContent', () => {
+  it('ignores bookkeeping columns but not deletion', () => {
+    expect(isSameContent('students', { ...base, updated_at: 'x', is_synced: 0 }, base)).toBe(true);
+    expect(isSameContent('students', { ...base, deleted_at: base.updated_at }, base)).toBe(false);
+  });
+});
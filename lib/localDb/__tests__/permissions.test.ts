@@ -0,0 +1,82 @@
+// lib/localDb/__tests__/permissions.test.ts
+import { checkPermission, hasPermission } from '../permissions';
+import { checkOfficeAccess } from '../officeAccess';
+import { levelsEntity, studentsEntity } from '../entities';
+import { getLocalProfile } from '@/lib/localProfile';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+jest.mock('@/lib/localProfile', () => ({ getLocalProfile: jest.fn() }));
+jest.mock('../officeAccess', () => ({ checkOfficeAccess: jest.fn() }));
+
+const signInWith = (permissions: string[] | null) =>
+  (getLocalProfile as jest.Mock).mockResolvedValue({
+    supabase_id: 'u',
+    role: 'user',
+    permissions: permissions && JSON.stringify(permissions),
+  });
+
+const student = { name: 'أحمد', office_uuid: 'office-1' };
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('checkPermission', () => {
+  it('refuses every write when signed out', async () => {
+    (getLocalProfile as jest.Mock).mockResolvedValue(null);
+
+    await expect(checkPermission(studentsEntity, 'insert', student)).rejects.toThrow('يجب تسجيل الدخول');
+  });
+
+  it('maps each action on office-scoped entities to its capability', async () => {
+    signInWith(['students.create', 'students.update']);
+
+    await expect(checkPermission(studentsEntity, 'insert', student)).resolves.toBeUndefined();
+    await expect(checkPermission(studentsEntity, 'update', student)).resolves.toBeUndefined();
+    await expect(checkPermission(studentsEntity, 'delete', student)).rejects.toThrow('لا تملك صلاحية تعديل الطالب');
+    await expect(checkPermission(studentsEntity, 'restore', student)).rejects.toThrow();
+  });
+
+  it('needs the manage capability for every write to other entities', async () => {
+    signInWith(['students.create', 'students.update', 'students.delete']);
+    await expect(checkPermission(levelsEntity, 'insert', { name: 'الأول' })).rejects.toThrow('لا تملك صلاحية تعديل المستوى');
+
+    signInWith(['levels.manage']);
+    await expect(checkPermission(levelsEntity, 'delete', { name: 'الأول' })).resolves.toBeUndefined();
+  });
+
+  it('needs recycleBin.manage to purge, whatever the entity', async () => {
+    signInWith(['students.delete', 'levels.manage']);
+    await expect(checkPermission(studentsEntity, 'purge', student)).rejects.toThrow();
+    await expect(checkPermission(levelsEntity, 'purge', {})).rejects.toThrow();
+
+    signInWith(['recycleBin.manage']);
+    await expect(checkPermission(levelsEntity, 'purge', {})).resolves.toBeUndefined();
+  });
+
+  it('checks the office only for office-scoped entities', async () => {
+    signInWith(['students.update', 'levels.manage']);
+    (checkOfficeAccess as jest.Mock).mockRejectedValue(new Error('لا تملك صلاحية على هذا المركز'));
+
+    await expect(checkPermission(studentsEntity, 'update', student)).rejects.toThrow('لا تملك صلاحية على هذا المركز');
+    expect(checkOfficeAccess).toHaveBeenCalledWith(studentsEntity, student);
+
+    await expect(checkPermission(levelsEntity, 'update', { name: 'الأول' })).resolves.toBeUndefined();
+    expect(checkOfficeAccess).toHaveBeenCalledTimes(1);
+  });
+
+  it('grants nothing to a profile without cached capabilities', async () => {
+    signInWith(null);
+
+    await expect(checkPermission(studentsEntity, 'insert', student)).rejects.toThrow();
+  });
+});
+
+describe('hasPermission', () => {
+  it('answers instead of throwing', async () => {
+    signInWith(['students.update']);
+
+    await expect(hasPermission(studentsEntity, 'update', student)).resolves.toBe(true);
+    await expect(hasPermission(studentsEntity, 'delete', student)).resolves.toBe(false);
+  });
+});
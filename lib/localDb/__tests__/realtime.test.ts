@@ -0,0 +1,102 @@
+// lib/localDb/__tests__/realtime.test.ts
+import {
+  RealtimeChangePayload,
+  RealtimeChannelLike,
+  RealtimeStatus,
+  RealtimeSubscription,
+} from '../realtime';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+// Stands in for a Supabase channel: records the listeners and lets the test drive events
+class MockChannel implements RealtimeChannelLike {
+  listeners: { table: string; callback: (payload: RealtimeChangePayload) => void }[] = [];
+  statusCallback?: (status: `${RealtimeStatus}`, error?: Error) => void;
+  unsubscribed = false;
+
+  on(
+    _type: 'postgres_changes',
+    filter: { event: '*'; schema: string; table: string },
+    callback: (payload: RealtimeChangePayload) => void
+  ): RealtimeChannelLike {
+    this.listeners.push({ table: filter.table, callback });
+    return this;
+  }
+
+  subscribe(callback?: (status: `${RealtimeStatus}`, error?: Error) => void): RealtimeChannelLike {
+    this.statusCallback = callback;
+    return this;
+  }
+
+  async unsubscribe(): Promise<unknown> {
+    this.unsubscribed = true;
+    return 'ok';
+  }
+
+  emit(table: string, payload: Omit<RealtimeChangePayload, 'table'>): void {
+    this.listeners.filter(listener => listener.table === table).forEach(listener => listener.callback({ table, ...payload }));
+  }
+}
+
+const setup = () => {
+  const channel = new MockChannel();
+  const onRow = jest.fn();
+  const onStatusChange = jest.fn();
+  const subscription = new RealtimeSubscription({
+    tables: ['levels', 'students'],
+    createChannel: () => channel,
+    onRow,
+    onStatusChange,
+  });
+  return { channel, onRow, onStatusChange, subscription };
+};
+
+describe('RealtimeSubscription', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('listens to every synced table on one channel', () => {
+    const { channel, subscription } = setup();
+    subscription.start();
+    subscription.start();
+
+    expect(channel.listeners.map(listener => listener.table)).toEqual(['levels', 'students']);
+  });
+
+  it('hands over inserted and updated rows, and skips hard deletes', () => {
+    const { channel, onRow, subscription } = setup();
+    subscription.start();
+
+    channel.emit('students', { eventType: 'INSERT', new: { uuid: 'a', name: 'أحمد' }, old: {} });
+    channel.emit('levels', { eventType: 'UPDATE', new: { uuid: 'b', name: 'الأول' }, old: {} });
+    channel.emit('levels', { eventType: 'DELETE', new: {}, old: { id: 3 } });
+
+    expect(onRow.mock.calls).toEqual([
+      ['students', { uuid: 'a', name: 'أحمد' }],
+      ['levels', { uuid: 'b', name: 'الأول' }],
+    ]);
+  });
+
+  it('reports status changes once each', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { channel, onStatusChange, subscription } = setup();
+    subscription.start();
+
+    channel.statusCallback?.('SUBSCRIBED');
+    channel.statusCallback?.('SUBSCRIBED');
+    channel.statusCallback?.('CHANNEL_ERROR', new Error('lost'));
+
+    expect(onStatusChange.mock.calls).toEqual([[true], [false]]);
+    expect(subscription.isConnected).toBe(false);
+  });
+
+  it('unsubscribes and reports the disconnect on stop', async () => {
+    const { channel, onStatusChange, subscription } = setup();
+    subscription.start();
+    channel.statusCallback?.('SUBSCRIBED');
+
+    await subscription.stop();
+
+    expect(channel.unsubscribed).toBe(true);
+    expect(onStatusChange).toHaveBeenLastCalledWith(false);
+  });
+});
@@ -0,0 +1,37 @@
+// lib/localDb/__tests__/studentDuplicates.test.ts
+import { nameSimilarity } from '../studentDuplicates';
+
+jest.mock('../index', () => ({ getDb: jest.fn() }));
+jest.mock('../studentsRepository', () => ({ studentsRepository: {} }));
+
+describe('nameSimilarity', () => {
+  it('matches spelling variants and stray marks fully', () => {
+    expect(nameSimilarity('أحمد', 'احمد')).toBe(1);
+    expect(nameSimilarity('فاطمة', 'فاطمه')).toBe(1);
+    expect(nameSimilarity('مُصطفى  علي', 'مصطفي علي')).toBe(1);
+  });
+
+  it('pairs the later words wherever they are', () => {
+    expect(nameSimilarity('أحمد علي حسن', 'أحمد حسن علي')).toBe(1);
+  });
+
+  it('takes a little off for each missing word', () => {
+    expect(nameSimilarity('أحمد علي حسن', 'أحمد حسن')).toBeCloseTo(0.95);
+    expect(nameSimilarity('أحمد علي حسن جاسم', 'أحمد حسن')).toBeCloseTo(0.95 ** 2);
+  });
+
+  it('charges a typo by the letters it changed', () => {
+    expect(nameSimilarity('محمد', 'محمود')).toBeCloseTo(0.8);
+  });
+
+  it('compares first names with each other only', () => {
+    expect(nameSimilarity('علي حسن', 'عمر حسن')).toBeCloseTo(2 / 3);
+    expect(nameSimilarity('علي حسن', 'حسن علي')).toBeLessThan(0.5);
+  });
+
+  it('is symmetric, and zero for an empty name', () => {
+    expect(nameSimilarity('أحمد حسن', 'أحمد علي حسن')).toBe(nameSimilarity('أحمد علي حسن', 'أحمد حسن'));
+    expect(nameSimilarity('', 'أحمد')).toBe(0);
+    expect(nameSimilarity('   ', '   ')).toBe(0);
+  });
+});
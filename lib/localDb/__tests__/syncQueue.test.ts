@@ -0,0 +1,138 @@
+// lib/localDb/__tests__/syncQueue.test.ts
+import { enqueueChange, setPushInProgress } from '../syncQueue';
+import { getDb } from '../index';
+
+jest.mock('../index', () => ({ getDb: jest.fn() }));
+
+interface Row {
+  id: number;
+  entity: string;
+  entity_uuid: string;
+  entity_supabase_id: number | null;
+  operation: string;
+  payload: string;
+  status: 'pending' | 'dead_letter';
+}
+
+// Just enough of sync_queue for the statements enqueueChange runs; writes to the record table are logged
+const createFakeDb = () => {
+  let queue: Row[] = [];
+  let nextId = 1;
+  const recordWrites: string[] = [];
+
+  const db = {
+    runAsync: jest.fn(async (sql: string, params: any[]) => {
+      if (sql.startsWith('INSERT INTO sync_queue')) {
+        const [entity, , entity_uuid, entity_supabase_id, operation, payload] = params;
+        queue.push({ id: nextId++, entity, entity_uuid, entity_supabase_id, operation, payload, status: 'pending' });
+      } else if (sql.startsWith('UPDATE sync_queue SET payload')) {
+        const [payload, id] = params;
+        queue = queue.map(row => (row.id === id ? { ...row, payload } : row));
+      } else if (sql.startsWith('DELETE FROM sync_queue')) {
+        const [entity, uuid] = params;
+        queue = queue.filter(row =>
+          !(row.entity === entity && row.entity_uuid === uuid
+            && (!sql.includes(`status = 'pending'`) || row.status === 'pending')
+            && (!sql.includes(`operation = 'UPDATE'`) || row.operation === 'UPDATE'))
+        );
+      } else {
+        recordWrites.push(sql);
+      }
+    }),
+    getAllAsync: jest.fn(async (_sql: string, [entity, uuid]: any[]) =>
+      queue.filter(row => row.entity === entity && row.entity_uuid === uuid && row.status === 'pending')
+    ),
+  };
+
+  return {
+    db,
+    recordWrites,
+    queue: () => queue.map(row => ({ operation: row.operation, payload: JSON.parse(row.payload), status: row.status })),
+    deadLetter: (id: number) => {
+      queue = queue.map(row => (row.id === id ? { ...row, status: 'dead_letter' } : row));
+    },
+  };
+};
+
+let fake: ReturnType<typeof createFakeDb>;
+
+beforeEach(() => {
+  fake = createFakeDb();
+  (getDb as jest.Mock).mockReturnValue(fake.db);
+  setPushInProgress(false);
+});
+
+describe('enqueueChange', () => {
+  it('folds updates into the pending insert, which stays an insert', async () => {
+    await enqueueChange('students', 'INSERT', 1, 'a', null, { name: 'أحمد', phone: '0770' });
+    await enqueueChange('students', 'UPDATE', 1, 'a', null, { phone: '0771' });
+
+    expect(fake.queue()).toEqual([
+      { operation: 'INSERT', payload: { name: 'أحمد', phone: '0771' }, status: 'pending' },
+    ]);
+    expect(fake.recordWrites).toEqual([expect.stringContaining(`operation_type = 'INSERT'`)]);
+  });
+
+  it('merges consecutive updates', async () => {
+    await enqueueChange('students', 'UPDATE', 1, 'a', 5, { name: 'أحمد' });
+    await enqueueChange('students', 'UPDATE', 1, 'a', 5, { phone: '0771' });
+
+    expect(fake.queue()).toEqual([
+      { operation: 'UPDATE', payload: { name: 'أحمد', phone: '0771' }, status: 'pending' },
+    ]);
+  });
+
+  it('lets a delete supersede pending updates', async () => {
+    await enqueueChange('students', 'UPDATE', 1, 'a', 5, { name: 'أحمد' });
+    await enqueueChange('students', 'DELETE', 1, 'a', 5, { deleted_by: 'u' });
+
+    expect(fake.queue()).toEqual([{ operation: 'DELETE', payload: { deleted_by: 'u' }, status: 'pending' }]);
+  });
+
+  it('cancels a record deleted before its insert was pushed', async () => {
+    await enqueueChange('students', 'INSERT', 1, 'a', null, { name: 'أحمد' });
+    await enqueueChange('students', 'UPDATE', 1, 'a', null, { phone: '0771' });
+    await enqueueChange('students', 'DELETE', 1, 'a', null, {});
+
+    expect(fake.queue()).toEqual([]);
+    expect(fake.recordWrites.pop()).toContain('is_synced = 1');
+  });
+
+  it('appends an update after a pending delete, e.g. a restore', async () => {
+    await enqueueChange('students', 'DELETE', 1, 'a', 5, {});
+    await enqueueChange('students', 'UPDATE', 1, 'a', 5, { deleted_at: null });
+
+    expect(fake.queue().map(change => change.operation)).toEqual(['DELETE', 'UPDATE']);
+  });
+
+  it('leaves dead letters alone', async () => {
+    await enqueueChange('students', 'UPDATE', 1, 'a', 5, { name: 'أحمد' });
+    fake.deadLetter(1);
+    await enqueueChange('students', 'UPDATE', 1, 'a', 5, { phone: '0771' });
+    await enqueueChange('students', 'DELETE', 1, 'a', 5, {});
+
+    expect(fake.queue()).toEqual([
+      { operation: 'UPDATE', payload: { name: 'أحمد' }, status: 'dead_letter' },
+      { operation: 'DELETE', payload: {}, status: 'pending' },
+    ]);
+  });
+
+  it('replaces everything with a purge, and skips it for records the server never had', async () => {
+    await enqueueChange('students', 'UPDATE', 1, 'a', 5, { name: 'أحمد' });
+    fake.deadLetter(1);
+    await enqueueChange('students', 'DELETE', 1, 'a', 5, {});
+    await enqueueChange('students', 'PURGE', 1, 'a', 5, {});
+    await enqueueChange('students', 'INSERT', 2, 'b', null, { name: 'علي' });
+    await enqueueChange('students', 'PURGE', 2, 'b', null, {});
+
+    expect(fake.queue()).toEqual([{ operation: 'PURGE', payload: {}, status: 'pending' }]);
+  });
+
+  it('only appends while a push is running', async () => {
+    await enqueueChange('students', 'UPDATE', 1, 'a', 5, { name: 'أحمد' });
+    setPushInProgress(true);
+    await enqueueChange('students', 'UPDATE', 1, 'a', 5, { phone: '0771' });
+
+    expect(fake.queue().map(change => change.payload)).toEqual([{ name: 'أحمد' }, { phone: '0771' }]);
+  });
+});
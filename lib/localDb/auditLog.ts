@@ -0,0 +1,198 @@
+// lib/localDb/auditLog.ts
+import { getDb } from './index';
+import { getEntity } from './entities';
+import { localColumns } from './schema';
+import type { ChangeOrigin } from './events';
+import { getCurrentUserId } from '@/lib/localProfile';
+import { supabase } from '@/lib/supabase';
+import { v4 as uuidv4 } from 'uuid';
+
+export type AuditOperation = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditChange {
+  before: any;
+  after: any;
+}
+
+export interface AuditEntry {
+  id: number;
+  uuid: string;
+  entity: string;
+  entity_uuid: string;
+  operation: AuditOperation;
+  // Only the fields that changed
+  changes: Record<string, AuditChange>;
+  // Who made the change; unknown for most changes merged from the server
+  actor: string | null;
+  origin: ChangeOrigin;
+  created_at: string;
+  is_synced: number;
+}
+
+// The entity's own columns and its deleted state. Parents are followed by uuid; their
+// server ids only mirror it.
+const auditedFields = (entity: string): string[] => {
+  const definition = getEntity(entity);
+  const serverIds = new Set((definition.relations ?? []).map(relation => relation.column));
+  return [...localColumns(definition).filter(name => !serverIds.has(name)), 'deleted_at'];
+};
+
+const emptyToNull = (value: any) => (value === undefined || value === '' ? null : value);
+
+// Field-level differences between two versions of a row
+export const diffFields = (
+  entity: string,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): Record<string, AuditChange> => {
+  const changes: Record<string, AuditChange> = {};
+  for (const field of auditedFields(entity)) {
+    const previous = emptyToNull(before?.[field]);
+    const next = emptyToNull(after?.[field]);
+    // Server rows and local rows may disagree on number vs. string
+    if (previous === next || (previous !== null && next !== null && String(previous) === String(next))) continue;
+    changes[field] = { before: previous, after: next };
+  }
+  return changes;
+};
+
+const readRow = async (entity: string, uuid: string): Promise<Record<string, any> | null> =>
+  await getDb().getFirstAsync<Record<string, any>>(`SELECT * FROM ${entity} WHERE uuid = ?`, [uuid]);
+
+/**
+ * Append the difference between two versions of a record to the audit log. Must run inside
+ * the transaction that made the change, so the log never disagrees with the data.
+ * Nothing is written when no audited field changed.
+ */
+export const recordAudit = async (
+  entity: string,
+  entityUuid: string,
+  before: Record<string, any> | null,
+  after: Record<string, any> | null,
+  origin: ChangeOrigin
+): Promise<void> => {
+  const changes = diffFields(entity, before, after);
+  if (Object.keys(changes).length === 0) return;
+
+  const operation: AuditOperation = !before
+    ? 'INSERT'
+    : after?.deleted_at && !before.deleted_at ? 'DELETE' : 'UPDATE';
+  // Server rows only say who deleted them
+  const actor = origin === 'local'
+    ? await getCurrentUserId()
+    : operation === 'DELETE' ? after?.deleted_by ?? null : null;
+
+  await getDb().runAsync(
+    `INSERT INTO audit_log (uuid, entity, entity_uuid, operation, changes, actor, origin, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [uuidv4(), entity, entityUuid, operation, JSON.stringify(changes), actor, origin, new Date().toISOString()]
+  );
+};
+
+// Run a write to one record and log what it changed; for writes that don't know the old values
+export const auditedWrite = async (
+  entity: string,
+  uuid: string,
+  origin: ChangeOrigin,
+  write: () => Promise<unknown>
+): Promise<void> => {
+  const before = await readRow(entity, uuid);
+  await write();
+  await recordAudit(entity, uuid, before, await readRow(entity, uuid), origin);
+};
+
+type AuditRow = Omit<AuditEntry, 'changes'> & { changes: string };
+
+// Entries pushed by every device; this device only logs what it changed and what it merged
+const fetchServerAuditTrail = async (entity: string, uuid: string): Promise<AuditEntry[]> => {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('id, uuid, entity, entity_uuid, operation, changes, actor, origin, created_at')
+    .eq('entity', entity)
+    .eq('entity_uuid', uuid);
+  if (error) throw error;
+  return (data ?? []).map(row => ({ ...row, is_synced: 1 }) as AuditEntry);
+};
+
+// The same change logged by its author and by a device that merged it
+const changeKey = (entry: AuditEntry) =>
+  JSON.stringify([entry.operation, Object.entries(entry.changes).map(([field, change]) => [field, change.after]).sort()]);
+
+/**
+ * A record's history, newest first. Entries from other devices come from the server and replace
+ * the actor-less copies this device logged when it merged their changes. Offline, or without
+ * audit.read for the record's office, only this device's entries are shown.
+ */
+export const getAuditTrail = async (entity: string, uuid: string): Promise<AuditEntry[]> => {
+  const rows = await getDb().getAllAsync<AuditRow>(
+    `SELECT * FROM audit_log WHERE entity = ? AND entity_uuid = ? ORDER BY created_at DESC, id DESC`,
+    [entity, uuid]
+  );
+  const local = rows.map(row => ({ ...row, changes: JSON.parse(row.changes) }));
+
+  let server: AuditEntry[];
+  try {
+    server = await fetchServerAuditTrail(entity, uuid);
+  } catch (error: any) {
+    console.warn(`⚠️ Showing this device's audit trail only for ${entity} ${uuid}:`, error.message);
+    return local;
+  }
+
+  const localUuids = new Set(local.map(entry => entry.uuid));
+  const fromOthers = server
+    .filter(entry => !localUuids.has(entry.uuid))
+    .map(entry => ({ ...entry, origin: 'remote' as const }));
+  const covered = new Set(fromOthers.map(changeKey));
+
+  return [...local.filter(entry => entry.origin !== 'remote' || !covered.has(changeKey(entry))), ...fromOthers]
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+};
+
+// Entries `actor` made on this device that the server does not have yet; merged ones came from
+// there. The server only takes entries in the signed-in user's own name.
+export const getUnsyncedAuditEntries = async (actor: string, limit: number): Promise<AuditEntry[]> => {
+  const rows = await getDb().getAllAsync<AuditRow>(
+    `SELECT * FROM audit_log WHERE is_synced = 0 AND origin = 'local' AND actor = ? ORDER BY id LIMIT ?`,
+    [actor, limit]
+  );
+  return rows.map(row => ({ ...row, changes: JSON.parse(row.changes) }));
+};
+
+export const markAuditEntriesSynced = async (ids: number[]): Promise<void> => {
+  if (ids.length === 0) return;
+  await getDb().runAsync(
+    `UPDATE audit_log SET is_synced = 1 WHERE id IN (${ids.map(() => '?').join(', ')})`,
+    ids
+  );
+};
+
+// How a field is named in the timeline; parent uuids take the label of the reference they stand for
+export const auditFieldLabel = (entity: string, field: string): string => {
+  if (field === 'deleted_at') return 'الحذف';
+  const definition = getEntity(entity);
+  const relation = definition.relations?.find(r => r.uuidColumn === field);
+  const name = relation ? relation.column : field;
+  return definition.columns.find(column => column.name === name)?.label ?? field;
+};
+
+// Names of the parents the entries point at, by uuid; deleted parents included
+export const getReferencedNames = async (entity: string, entries: AuditEntry[]): Promise<Record<string, string>> => {
+  const db = getDb();
+  const names: Record<string, string> = {};
+  for (const relation of getEntity(entity).relations ?? []) {
+    const uuids = [...new Set(
+      entries.flatMap(entry => {
+        const change = entry.changes[relation.uuidColumn];
+        return change ? [change.before, change.after] : [];
+      }).filter((uuid): uuid is string => !!uuid)
+    )];
+    if (uuids.length === 0) continue;
+
+    const rows = await db.getAllAsync<{ uuid: string; name: string }>(
+      `SELECT uuid, name FROM ${relation.parent} WHERE uuid IN (${uuids.map(() => '?').join(', ')})`,
+      uuids
+    );
+    rows.forEach(row => { names[row.uuid] = row.name; });
+  }
+  return names;
+};
@@ -1,6 +1,31 @@
 // lib/localDb/baseRepository.ts
 import { getDb } from './index';
+import { saveSyncBase, clearSyncBase } from './syncState';
+import { enqueueChange, SyncOperation } from './syncQueue';
+import { syncEvents, EntityChangeEvent } from './events';
+import { auditedWrite, recordAudit } from './auditLog';
+import { markConflictResolved, SyncConflict } from './conflicts';
+import { officeScopeSql } from './officeAccess';
+import { checkPermission } from './permissions';
+import { childReferences, resolveLocalReferences } from './dependencies';
+import {
+  BOOKKEEPING_COLUMNS,
+  EntityDefinition,
+  RelationDefinition,
+  RemoteRowCollisionError,
+  findMissingRequired,
+  fullTextTable,
+  insertRemoteRow,
+  localColumns,
+  searchColumns,
+  toLocalValues,
+  uniqueKeyColumns,
+  updateRowFromRemote
+} from './schema';
+import { QueryBuilder, QuerySource } from './queryBuilder';
+import { getCurrentUserId } from '@/lib/localProfile';
 import { v4 as uuidv4 } from 'uuid';
+import type { SQLiteRunResult } from 'expo-sqlite';
 
 export interface BaseEntity {
   id: number;
@@ -12,98 +37,367 @@ export interface BaseEntity {
   created_at?: string;
   updated_at?: string;
   deleted_at?: string;
+  deleted_by?: string | null;
+}
+
+// A write that would repeat a unique key; carries the live record it collides with
+export class DuplicateRecordError<T extends BaseEntity = BaseEntity> extends Error {
+  code = 'DUPLICATE_RECORD';
+
+  constructor(message: string, public existing: T) {
+    super(message);
+    this.name = 'DuplicateRecordError';
+  }
+}
+
+// What deleting a record does to the live records pointing at it
+export type DeleteStrategy = 'block' | 'reassign' | 'cascade';
+
+export interface DeleteOptions {
+  // 'block' (the default) refuses while dependents exist
+  strategy?: DeleteStrategy;
+  // uuid of the record the dependents move to, for 'reassign'
+  reassignTo?: string;
+}
+
+// Live records of one entity still pointing at a record
+export interface DependentCount {
+  entity: string;
+  displayName: string;
+  count: number;
+}
+
+// A delete refused because other records still point at the record
+export class DependentRecordsError extends Error {
+  code = 'HAS_DEPENDENTS';
+
+  constructor(message: string, public dependents: DependentCount[]) {
+    super(message);
+    this.name = 'DependentRecordsError';
+  }
+}
+
+interface Dependents {
+  repository: BaseRepository<any>;
+  refs: RelationDefinition[];
+  ids: number[];
+}
+
+// A write made inside a transaction, announced once it has committed
+interface PendingChange {
+  repository: BaseRepository<any>;
+  operation: EntityChangeEvent['operation'];
+  uuid: string;
 }
 
 export abstract class BaseRepository<T extends BaseEntity> {
-  protected abstract tableName: string;
-  protected abstract displayName: string;
+  protected abstract definition: EntityDefinition;
+
+  get entity(): string {
+    return this.definition.name;
+  }
+
+  protected get tableName(): string {
+    return this.definition.name;
+  }
+
+  protected get displayName(): string {
+    return this.definition.displayName;
+  }
+
+  // Filtered, sorted and paged reads straight from SQLite
+  query(): QueryBuilder<T> {
+    return new QueryBuilder<T>(this.querySource());
+  }
 
   async getAll(): Promise<T[]> {
-    const db = getDb();
-    const result = await db.getAllAsync(
-      `SELECT * FROM ${this.tableName} WHERE (deleted_at IS NULL OR deleted_at = '') ORDER BY id ASC`
-    );
-    return result as T[];
+    return await this.query().orderBy('id' as keyof T & string).all();
+  }
+
+  async count(): Promise<number> {
+    return await this.query().count();
+  }
+
+  // Best matches first; spelling variants of Arabic names match each other
+  async search(text: string, limit = 50): Promise<T[]> {
+    return await this.query().search(text).limit(limit).all();
   }
 
   async getById(id: number): Promise<T | null> {
-    const db = getDb();
-    const result = await db.getFirstAsync(
-      `SELECT * FROM ${this.tableName} WHERE id = ? AND (deleted_at IS NULL OR deleted_at = '')`,
-      [id]
-    );
-    return result as T | null;
+    return await this.query().where('id' as keyof T & string, id).first();
   }
 
   async getByUuid(uuid: string): Promise<T | null> {
-    const db = getDb();
-    const result = await db.getFirstAsync(
-      `SELECT * FROM ${this.tableName} WHERE uuid = ? AND (deleted_at IS NULL OR deleted_at = '')`,
-      [uuid]
-    );
-    return result as T | null;
+    return await this.query().where('uuid' as keyof T & string, uuid).first();
+  }
+
+  // The recycle bin: soft-deleted records, most recently deleted first
+  async getDeleted(): Promise<T[]> {
+    return await this.query()
+      .includeDeleted()
+      .where('deleted_at' as keyof T & string, 'is not null')
+      .orderBy('deleted_at' as keyof T & string, 'desc')
+      .all();
   }
 
   async insert(item: Partial<T>): Promise<{ localId: number; uuid: string }> {
     const db = getDb();
     const now = new Date().toISOString();
     const newUuid = uuidv4();
+    let localId = 0;
+
+    await db.withTransactionAsync(async () => {
+      item = await this.prepareItem(item);
 
-    return await db.withTransactionAsync(async () => {
       // Check for duplicates
       await this.checkDuplicates(item);
 
       const result = await this.performInsert(item, newUuid, now);
-      const insertId = result.lastInsertRowId as number;
+      localId = result.lastInsertRowId as number;
+      // Checked once the row exists, with the values it was stored with
+      if (!item.supabase_id) {
+        await checkPermission(this.definition, 'insert', { ...toLocalValues(this.definition, item), uuid: newUuid });
+      }
+      await recordAudit(this.tableName, newUuid, null, toLocalValues(this.definition, item), item.supabase_id ? 'remote' : 'local');
 
       // Add to sync queue if not from Supabase
       if (!item.supabase_id) {
-        await this.addToSyncQueue('INSERT', insertId, newUuid, null, item, now);
+        await this.addToSyncQueue('INSERT', localId, newUuid, null, toLocalValues(this.definition, item), now);
       }
-
-      return { localId: insertId, uuid: newUuid };
     });
+
+    this.emitLocalChange('INSERT', newUuid);
+    return { localId, uuid: newUuid };
   }
 
   async update(id: number, item: Partial<T>): Promise<void> {
     const db = getDb();
     const now = new Date().toISOString();
+    let uuid = '';
 
-    return await db.withTransactionAsync(async () => {
-      const existing = await this.getById(id);
-      if (!existing) {
-        throw new Error(`${this.displayName} غير موجود محلياً`);
-      }
+    await db.withTransactionAsync(async () => {
+      uuid = await this.updateInTransaction(id, item, now);
+    });
 
-      // Check for duplicates (excluding current item)
-      await this.checkDuplicates(item, id);
+    this.emitLocalChange('UPDATE', uuid);
+  }
 
-      await this.performUpdate(id, item, now);
+  /**
+   * Soft-delete a record. While live records still point at it the delete is refused, unless
+   * the options move them to another record or delete them along with it; either way they are
+   * changed through their own repository in the same transaction, so the changes are queued for sync.
+   */
+  async delete(id: number, options: DeleteOptions = {}): Promise<void> {
+    const db = getDb();
+    const now = new Date().toISOString();
+    const changes: PendingChange[] = [];
 
-      // Add to sync queue
-      await this.addToSyncQueue('UPDATE', id, existing.uuid, existing.supabase_id, item, now);
+    await db.withTransactionAsync(async () => {
+      await this.deleteWithDependents(id, options, now, changes);
     });
+
+    changes.forEach(change => change.repository.emitLocalChange(change.operation, change.uuid));
+  }
+
+  // Live records pointing at this one, per dependent entity
+  async getDependents(id: number): Promise<DependentCount[]> {
+    const existing = await this.getById(id);
+    if (!existing) {
+      throw new Error(`${this.displayName} غير موجود محلياً`);
+    }
+    return (await this.findDependents(existing.uuid)).map(({ repository, ids }) => ({
+      entity: repository.entity,
+      displayName: repository.displayName,
+      count: ids.length
+    }));
   }
 
-  async delete(id: number): Promise<void> {
+  /**
+   * Bring a record back from the recycle bin. It has to fit the unique keys among live rows
+   * again, and its parents must not be deleted themselves. Queued as an UPDATE clearing
+   * deleted_at, or as a fresh INSERT if it was deleted before ever reaching the server.
+   */
+  async restore(id: number): Promise<void> {
     const db = getDb();
     const now = new Date().toISOString();
+    let uuid = '';
 
-    return await db.withTransactionAsync(async () => {
-      const existing = await this.getById(id);
+    await db.withTransactionAsync(async () => {
+      const existing = await this.query().includeDeleted().where('id' as keyof T & string, id).first();
       if (!existing) {
         throw new Error(`${this.displayName} غير موجود محلياً`);
       }
+      if (!existing.deleted_at) {
+        throw new Error(`${this.displayName} غير محذوف`);
+      }
+      uuid = existing.uuid;
+
+      for (const relation of this.definition.relations ?? []) {
+        const parentUuid = (existing as Record<string, any>)[relation.uuidColumn];
+        if (!parentUuid) continue;
+        const parent = await db.getFirstAsync<{ deleted_at: string | null }>(
+          `SELECT deleted_at FROM ${relation.parent} WHERE uuid = ?`,
+          [parentUuid]
+        );
+        if (parent?.deleted_at) {
+          const label = this.definition.columns.find(column => column.name === relation.column)?.label ?? relation.parent;
+          throw new Error(`لا يمكن استعادة ${this.displayName} لأن ${label} المرتبط به محذوف`);
+        }
+      }
+
+      await this.checkDuplicates(existing, id);
+      await checkPermission(this.definition, 'restore', existing);
+      await this.captureSyncBase(existing);
 
-      // Soft delete
+      const operation: SyncOperation = existing.supabase_id ? 'UPDATE' : 'INSERT';
       await db.runAsync(
-        `UPDATE ${this.tableName} SET deleted_at = ?, is_synced = 0, operation_type = "DELETE", updated_at = ? WHERE id = ?`,
-        [now, now, id]
+        `UPDATE ${this.tableName} SET deleted_at = NULL, deleted_by = NULL, is_synced = 0, operation_type = ?, updated_at = ? WHERE id = ?`,
+        [operation, now, id]
+      );
+      await recordAudit(this.tableName, existing.uuid, existing, { ...existing, deleted_at: null }, 'local');
+
+      const payload = operation === 'UPDATE'
+        ? { deleted_at: null, deleted_by: null }
+        : toLocalValues(this.definition, existing);
+      await this.addToSyncQueue(operation, id, existing.uuid, existing.supabase_id, payload, now);
+    });
+
+    this.emitLocalChange('UPDATE', uuid);
+  }
+
+  /**
+   * Empty the recycle bin of records deleted before `cutoff`: removed here, and from the server
+   * through a queued PURGE. Records something still points at, even a deleted child, stay until
+   * that child is purged. Returns how many were purged.
+   */
+  async purgeDeleted(cutoff: string): Promise<number> {
+    const db = getDb();
+    const table = this.tableName;
+    const children = childReferences(table);
+    const now = new Date().toISOString();
+    let purged: { id: number; uuid: string; supabase_id: number | null }[] = [];
+
+    await db.withTransactionAsync(async () => {
+      await checkPermission(this.definition, 'purge', {});
+      purged = await db.getAllAsync(
+        `SELECT id, uuid, supabase_id FROM ${table}
+         WHERE deleted_at IS NOT NULL AND deleted_at != '' AND deleted_at < ?
+         ${children.map(({ child, ref }) => `AND NOT EXISTS (SELECT 1 FROM ${child} WHERE ${child}.${ref.uuidColumn} = ${table}.uuid)`).join('\n         ')}`,
+        [cutoff]
       );
 
-      // Add to sync queue
-      await this.addToSyncQueue('DELETE', id, existing.uuid, existing.supabase_id, { deleted_at: now }, now);
+      for (const row of purged) {
+        await this.addToSyncQueue('PURGE', row.id, row.uuid, row.supabase_id, {}, now);
+        await clearSyncBase(table, row.uuid);
+        await db.runAsync(`DELETE FROM ${table} WHERE id = ?`, [row.id]);
+      }
+    });
+
+    purged.forEach(row => this.emitLocalChange('DELETE', row.uuid));
+    if (purged.length > 0) {
+      console.log(`🗑️ Purged ${purged.length} ${table} from the recycle bin`);
+    }
+    return purged.length;
+  }
+
+  /**
+   * Fold a duplicate into another record: `keepId` takes `values`, `removeId` is soft-deleted.
+   * Both happen in one transaction and are queued as an UPDATE and a DELETE, so the merge
+   * reaches the server as well.
+   */
+  async merge(keepId: number, removeId: number, values: Partial<T>): Promise<void> {
+    if (keepId === removeId) {
+      throw new Error('لا يمكن دمج السجل مع نفسه');
+    }
+    const db = getDb();
+    const now = new Date().toISOString();
+    const changes: PendingChange[] = [];
+
+    await db.withTransactionAsync(async () => {
+      const kept = await this.getById(keepId);
+      if (!kept) {
+        throw new Error(`${this.displayName} غير موجود محلياً`);
+      }
+      // Removed first, so the kept record may take over its values without tripping the unique keys.
+      // Whatever pointed at the removed record now points at the kept one.
+      await this.deleteWithDependents(removeId, { strategy: 'reassign', reassignTo: kept.uuid }, now, changes);
+      changes.push({ repository: this, operation: 'UPDATE', uuid: await this.updateInTransaction(keepId, values, now) });
     });
+
+    changes.forEach(change => change.repository.emitLocalChange(change.operation, change.uuid));
+  }
+
+  /**
+   * Settle a 'duplicate' conflict: a server record that could not be stored because a different
+   * local record holds the same unique key. 'remote' keeps the server's record, moves whatever
+   * pointed at the local one over to it and deletes the local one; 'merged' gives the local
+   * record `values` (a new name) so both can exist. The server record is stored either way.
+   */
+  async resolveDuplicate(conflict: SyncConflict, resolution: 'remote' | 'merged', values: Partial<T> = {}): Promise<void> {
+    const db = getDb();
+    const now = new Date().toISOString();
+    const local = JSON.parse(conflict.local_data);
+    const remoteItem = JSON.parse(conflict.remote_data);
+    const changes: PendingChange[] = [];
+
+    await db.withTransactionAsync(async () => {
+      const existing = await this.getByUuid(local.uuid);
+
+      if (existing && resolution === 'remote') {
+        const dependents = await this.findDependents(existing.uuid);
+        changes.push({ repository: this, operation: 'DELETE', uuid: await this.deleteInTransaction(existing.id, now) });
+        if (!existing.supabase_id) {
+          // Never reached the server, so nothing queued for it can be sent any more; dead letters included
+          await db.runAsync('DELETE FROM sync_queue WHERE entity = ? AND entity_uuid = ?', [this.tableName, existing.uuid]);
+        }
+        await this.storeCollidedRemote(remoteItem);
+        for (const { repository, refs, ids } of dependents) {
+          for (const childId of ids) {
+            const child = await repository.getById(childId);
+            const moved = Object.fromEntries(
+              refs.filter(ref => child?.[ref.uuidColumn] === existing.uuid).map(ref => [ref.uuidColumn, remoteItem.uuid])
+            );
+            changes.push({ repository, operation: 'UPDATE', uuid: await repository.updateInTransaction(childId, moved, now) });
+          }
+        }
+      } else if (existing) {
+        changes.push({ repository: this, operation: 'UPDATE', uuid: await this.updateInTransaction(existing.id, values, now) });
+        // A push the server refused over the old values gets another try with the new ones
+        const renamed = toLocalValues(this.definition, values);
+        const dead = await db.getAllAsync<{ id: number; payload: string }>(
+          `SELECT id, payload FROM sync_queue WHERE entity = ? AND entity_uuid = ? AND status = 'dead'`,
+          [this.tableName, existing.uuid]
+        );
+        for (const entry of dead) {
+          await db.runAsync(
+            `UPDATE sync_queue SET payload = ?, status = 'pending', retry_count = 0, dead_at = NULL, next_attempt_at = NULL WHERE id = ?`,
+            [JSON.stringify({ ...JSON.parse(entry.payload), ...renamed }), entry.id]
+          );
+        }
+        await this.storeCollidedRemote(remoteItem);
+      } else {
+        // The local record is gone already; the server's only needs storing
+        await this.storeCollidedRemote(remoteItem);
+      }
+
+      await markConflictResolved(conflict.id, resolution, resolution === 'merged' ? toLocalValues(this.definition, values) : null);
+    });
+
+    changes.forEach(change => change.repository.emitLocalChange(change.operation, change.uuid));
+    this.emitLocalChange('INSERT', remoteItem.uuid);
+  }
+
+  private async storeCollidedRemote(remoteItem: any): Promise<void> {
+    try {
+      await auditedWrite(this.tableName, remoteItem.uuid, 'remote', () =>
+        insertRemoteRow(getDb(), this.definition, remoteItem)
+      );
+    } catch (error) {
+      if (error instanceof RemoteRowCollisionError) {
+        throw new Error(`ما زال ${this.displayName} القادم من الخادم مطابقاً لسجل محلي آخر`);
+      }
+      throw error;
+    }
   }
 
   async markAsSynced(id: number): Promise<void> {
@@ -139,39 +433,250 @@ export abstract class BaseRepository<T extends BaseEntity> {
     const db = getDb();
     const existing = await this.getByUuid(remoteItem.uuid);
 
+    await db.withTransactionAsync(async () => {
+      await auditedWrite(this.tableName, remoteItem.uuid, 'remote', async () => {
+        if (!existing) {
+          await insertRemoteRow(db, this.definition, remoteItem);
+        } else {
+          await updateRowFromRemote(db, this.definition, remoteItem);
+        }
+      });
+    });
+  }
+
+  // Repositories showing joined data extend the source with their joins and extra columns
+  protected querySource(): QuerySource {
+    const table = this.tableName;
+    const columns = [...BOOKKEEPING_COLUMNS, ...localColumns(this.definition)];
+    const fts = fullTextTable(this.definition);
+    return {
+      from: table,
+      select: `${table}.*`,
+      columns: Object.fromEntries(columns.map(column => [column, `${table}.${column}`])),
+      searchColumns: searchColumns(this.definition),
+      fullText: fts ? { table: fts, columns: searchColumns(this.definition) } : undefined,
+      deletedColumn: `${table}.deleted_at`,
+      scope: officeScopeSql(this.definition),
+    };
+  }
+
+  // Repositories whose records point at this one's, checked before a delete
+  protected dependentRepositories(): BaseRepository<any>[] {
+    return [];
+  }
+
+  // Hook for filling in derived fields before an item is validated and written.
+  // Callers may pick parents by uuid or by server id; both are stored.
+  protected async prepareItem(item: Partial<T>): Promise<Partial<T>> {
+    return await resolveLocalReferences(this.tableName, item);
+  }
+
+  // Required fields and the declared unique keys, checked among live rows
+  protected async checkDuplicates(item: Partial<T>, excludeId?: number): Promise<void> {
+    const values = toLocalValues(this.definition, item);
+
+    const missing = findMissingRequired(this.definition, values);
+    if (missing) {
+      throw new Error(missing);
+    }
+
+    const db = getDb();
+    for (const key of this.definition.uniqueKeys ?? []) {
+      // Names are compared in their normalized form, so spelling variants collide too
+      const columns = uniqueKeyColumns(this.definition, key);
+      // NULLs never collide, same as the unique index
+      if (columns.some(column => values[column] == null)) continue;
+
+      const match = await db.getFirstAsync<{ id: number }>(
+        `SELECT id FROM ${this.tableName}
+         WHERE ${columns.map(column => `${column} = ?`).join(' AND ')}
+         ${excludeId ? 'AND id != ?' : ''} AND (deleted_at IS NULL OR deleted_at = '')`,
+        [...columns.map(column => values[column]), ...(excludeId ? [excludeId] : [])]
+      );
+      const existing = match ? await this.getById(match.id) : null;
+      if (existing) {
+        throw new DuplicateRecordError(`${key.message}: ${this.describeRecord(existing)}`, existing);
+      }
+    }
+  }
+
+  // How a record is named in messages, e.g. the one a duplicate collides with
+  protected describeRecord(item: T): string {
+    return `«${item.name}»`;
+  }
+
+  protected async performInsert(item: Partial<T>, uuid: string, now: string): Promise<SQLiteRunResult> {
+    const db = getDb();
+    const values = toLocalValues(this.definition, item);
+    const columns = Object.keys(values);
+    return await db.runAsync(
+      `INSERT INTO ${this.tableName} (uuid, ${columns.map(c => `${c}, `).join('')}supabase_id, is_synced, operation_type, created_at, updated_at)
+       VALUES (?, ${columns.map(() => '?, ').join('')}?, ?, ?, ?, ?)`,
+      [
+        uuid,
+        ...columns.map(c => values[c]),
+        item.supabase_id || null,
+        item.supabase_id ? 1 : 0,
+        item.supabase_id ? null : 'INSERT',
+        now,
+        now
+      ]
+    );
+  }
+
+  // Only the fields the caller passed are written
+  protected async performUpdate(id: number, item: Partial<T>, now: string): Promise<void> {
+    const db = getDb();
+    const values = toLocalValues(this.definition, item);
+    const columns = Object.keys(values);
+    await db.runAsync(
+      `UPDATE ${this.tableName} SET ${columns.map(c => `${c} = ?, `).join('')}is_synced = 0, operation_type = 'UPDATE', updated_at = ? WHERE id = ?`,
+      [...columns.map(c => values[c]), now, id]
+    );
+  }
+
+  // The body of update(), for callers that already hold a transaction; returns the uuid
+  private async updateInTransaction(id: number, item: Partial<T>, now: string): Promise<string> {
+    const existing = await this.getById(id);
     if (!existing) {
-      await this.insertFromRemote(remoteItem);
-    } else {
-      await this.updateFromRemote(remoteItem);
+      throw new Error(`${this.displayName} غير موجود محلياً`);
     }
+
+    item = await this.prepareItem(item);
+
+    // Check for duplicates (excluding current item); fields left out keep their current values
+    await this.checkDuplicates({ ...existing, ...item }, id);
+    // The record itself is in scope, or getById would not have found it; it may not move out
+    await checkPermission(this.definition, 'update', { ...existing, ...toLocalValues(this.definition, item) });
+
+    await this.captureSyncBase(existing);
+
+    await this.performUpdate(id, item, now);
+    await recordAudit(this.tableName, existing.uuid, existing, { ...existing, ...toLocalValues(this.definition, item) }, 'local');
+
+    // Add to sync queue
+    await this.addToSyncQueue('UPDATE', id, existing.uuid, existing.supabase_id, toLocalValues(this.definition, item), now);
+    return existing.uuid;
   }
 
-  protected abstract checkDuplicates(item: Partial<T>, excludeId?: number): Promise<void>;
-  protected abstract performInsert(item: Partial<T>, uuid: string, now: string): Promise<any>;
-  protected abstract performUpdate(id: number, item: Partial<T>, now: string): Promise<void>;
-  protected abstract insertFromRemote(remoteItem: any): Promise<void>;
-  protected abstract updateFromRemote(remoteItem: any): Promise<void>;
+  // Live dependents of the record with `uuid`, per dependent repository
+  private async findDependents(uuid: string): Promise<Dependents[]> {
+    const db = getDb();
+    const found: Dependents[] = [];
+    for (const repository of this.dependentRepositories()) {
+      const refs = (repository.definition.relations ?? []).filter(ref => ref.parent === this.tableName);
+      if (refs.length === 0) continue;
+
+      const rows = await db.getAllAsync<{ id: number }>(
+        `SELECT id FROM ${repository.tableName}
+         WHERE (${refs.map(ref => `${ref.uuidColumn} = ?`).join(' OR ')}) AND (deleted_at IS NULL OR deleted_at = '')
+         ORDER BY id`,
+        refs.map(() => uuid)
+      );
+      if (rows.length > 0) {
+        found.push({ repository, refs, ids: rows.map(row => row.id) });
+      }
+    }
+    return found;
+  }
+
+  // The body of delete(), for callers that already hold a transaction
+  private async deleteWithDependents(id: number, options: DeleteOptions, now: string, changes: PendingChange[]): Promise<void> {
+    const existing = await this.getById(id);
+    if (!existing) {
+      throw new Error(`${this.displayName} غير موجود محلياً`);
+    }
+
+    const dependents = await this.findDependents(existing.uuid);
+    const strategy = options.strategy ?? 'block';
+
+    if (dependents.length > 0 && strategy === 'block') {
+      const counts = dependents.map(({ repository, ids }) => `${repository.displayName}: ${ids.length}`).join('، ');
+      throw new DependentRecordsError(
+        `لا يمكن حذف ${this.displayName} ${this.describeRecord(existing)} لوجود سجلات مرتبطة به (${counts})`,
+        dependents.map(({ repository, ids }) => ({ entity: repository.entity, displayName: repository.displayName, count: ids.length }))
+      );
+    }
+
+    if (dependents.length > 0 && strategy === 'reassign') {
+      const target = options.reassignTo ? await this.getByUuid(options.reassignTo) : null;
+      if (!target || target.id === id) {
+        throw new Error(`اختر ${this.displayName} آخر لنقل السجلات المرتبطة إليه`);
+      }
+      for (const { repository, refs, ids } of dependents) {
+        for (const childId of ids) {
+          const child = await repository.getById(childId);
+          const moved = Object.fromEntries(
+            refs.filter(ref => child?.[ref.uuidColumn] === existing.uuid).map(ref => [ref.uuidColumn, target.uuid])
+          );
+          changes.push({ repository, operation: 'UPDATE', uuid: await repository.updateInTransaction(childId, moved, now) });
+        }
+      }
+    }
+
+    if (dependents.length > 0 && strategy === 'cascade') {
+      for (const { repository, ids } of dependents) {
+        for (const childId of ids) {
+          await repository.deleteWithDependents(childId, { strategy: 'cascade' }, now, changes);
+        }
+      }
+    }
+
+    changes.push({ repository: this, operation: 'DELETE', uuid: await this.deleteInTransaction(id, now) });
+  }
+
+  // Soft-deletes one record, for callers that already hold a transaction; returns the uuid
+  private async deleteInTransaction(id: number, now: string): Promise<string> {
+    const existing = await this.getById(id);
+    if (!existing) {
+      throw new Error(`${this.displayName} غير موجود محلياً`);
+    }
+
+    await checkPermission(this.definition, 'delete', existing);
+    await this.captureSyncBase(existing);
+
+    // Soft delete, remembering who did it for the recycle bin
+    const deletedBy = await getCurrentUserId();
+    await getDb().runAsync(
+      `UPDATE ${this.tableName} SET deleted_at = ?, deleted_by = ?, is_synced = 0, operation_type = "DELETE", updated_at = ? WHERE id = ?`,
+      [now, deletedBy, now, id]
+    );
+    await recordAudit(this.tableName, existing.uuid, existing, { ...existing, deleted_at: now, deleted_by: deletedBy }, 'local');
+
+    // Add to sync queue
+    await this.addToSyncQueue('DELETE', id, existing.uuid, existing.supabase_id, { deleted_at: now, deleted_by: deletedBy }, now);
+    return existing.uuid;
+  }
+
+  // Emitted once the transaction has committed, so listeners read the new state
+  private emitLocalChange(operation: EntityChangeEvent['operation'], uuid: string): void {
+    syncEvents.emit('change', { entity: this.tableName, operation, uuid, origin: 'local' });
+    syncEvents.emit('queueChanged', { entity: this.tableName });
+  }
+
+  // The first local edit of a synced row remembers the server version it started from,
+  // which the sync manager uses to tell real conflicts from one-sided changes
+  private async captureSyncBase(existing: T): Promise<void> {
+    if (existing.is_synced && existing.supabase_id) {
+      await saveSyncBase(this.tableName, existing.uuid, existing);
+    }
+  }
 
   private async addToSyncQueue(
-    operation: string,
+    operation: SyncOperation,
     localId: number,
     uuid: string,
     supabaseId: number | null | undefined,
     payload: any,
     timestamp: string
   ): Promise<void> {
-    const db = getDb();
-    await db.runAsync(
-      `INSERT INTO sync_queue (entity, entity_local_id, entity_uuid, entity_supabase_id, operation, payload)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-      [
-        this.tableName,
-        localId,
-        uuid,
-        supabaseId || null,
-        operation,
-        JSON.stringify({ ...payload, uuid, updated_at: timestamp })
-      ]
+    await enqueueChange(
+      this.tableName,
+      operation,
+      localId,
+      uuid,
+      supabaseId || null,
+      { ...payload, uuid, updated_at: timestamp }
     );
   }
 }
@@ -0,0 +1,210 @@
+// lib/localDb/conflicts.ts
+import { getDb } from './index';
+import { ENTITIES } from './entities';
+import { syncedColumns } from './schema';
+
+export type ConflictPolicy = 'last-writer-wins' | 'server-wins' | 'client-wins' | 'merge' | 'manual';
+export type ConflictResolution = 'local' | 'remote' | 'merged';
+export type ConflictStatus = 'pending' | 'resolved';
+// 'version': both sides edited the same record. 'duplicate': a server record repeats a unique key
+// of a different local one and waits, unstored, until one of them is renamed or dropped.
+export type ConflictKind = 'version' | 'duplicate';
+
+export interface SyncConflict {
+  id: number;
+  entity: string;
+  entity_uuid: string;
+  kind: ConflictKind;
+  local_data: string;
+  remote_data: string;
+  base_data: string | null;
+  policy: ConflictPolicy;
+  status: ConflictStatus;
+  resolution: ConflictResolution | null;
+  resolved_data: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+// A null resolution means the policy could not decide and a human has to
+export type ConflictOutcome =
+  | { resolution: 'local' | 'remote' }
+  | { resolution: 'merged'; merged: Record<string, any> }
+  | { resolution: null };
+
+// User-editable fields compared when detecting and merging conflicts
+export const CONFLICT_FIELDS: Record<string, string[]> = Object.fromEntries(
+  ENTITIES.map(entity => [entity.name, syncedColumns(entity)])
+);
+
+const conflictPolicies: Record<string, ConflictPolicy> = Object.fromEntries(
+  ENTITIES.map(entity => [entity.name, entity.conflictPolicy ?? 'last-writer-wins'])
+);
+
+export const getConflictPolicy = (entity: string): ConflictPolicy =>
+  conflictPolicies[entity] ?? 'last-writer-wins';
+
+export const setConflictPolicy = (entity: string, policy: ConflictPolicy): void => {
+  conflictPolicies[entity] = policy;
+};
+
+const normalize = (value: any) => (value === undefined || value === '' ? null : value);
+const sameValue = (a: any, b: any) => String(normalize(a)) === String(normalize(b));
+const timeOf = (row: any) => new Date(row?.updated_at || row?.created_at || 0).getTime();
+
+// True when the server row moved on from the version the local edit was based on
+export const isRemoteChangedSince = (baseUpdatedAt: string | null | undefined, remote: any): boolean =>
+  !baseUpdatedAt || new Date(baseUpdatedAt).getTime() !== timeOf(remote);
+
+// Both sides ended up identical, e.g. two teachers fixed the same typo
+export const isSameContent = (entity: string, local: any, remote: any): boolean =>
+  !!local.deleted_at === !!remote.deleted_at &&
+  (CONFLICT_FIELDS[entity] ?? []).every(field => sameValue(local[field], remote[field]));
+
+// Three-way merge: take each field from whichever side changed it; give up if both did
+const mergeFields = (entity: string, local: any, remote: any, base: any | null): Record<string, any> | null => {
+  // Without the common version we cannot tell who changed what, and delete vs. edit needs a human
+  if (!base || local.deleted_at || remote.deleted_at) return null;
+
+  const merged: Record<string, any> = {};
+  for (const field of CONFLICT_FIELDS[entity] ?? []) {
+    const l = local[field];
+    const r = remote[field];
+    const b = base[field];
+
+    if (sameValue(l, r) || sameValue(r, b)) {
+      merged[field] = l;
+    } else if (sameValue(l, b)) {
+      merged[field] = r;
+    } else {
+      return null;
+    }
+  }
+  return merged;
+};
+
+export const resolveConflict = (
+  entity: string,
+  local: any,
+  remote: any,
+  base: any | null,
+  policy: ConflictPolicy
+): ConflictOutcome => {
+  switch (policy) {
+    case 'server-wins':
+      return { resolution: 'remote' };
+    case 'client-wins':
+      return { resolution: 'local' };
+    case 'last-writer-wins':
+      return { resolution: timeOf(local) > timeOf(remote) ? 'local' : 'remote' };
+    case 'merge': {
+      const merged = mergeFields(entity, local, remote, base);
+      return merged ? { resolution: 'merged', merged } : { resolution: null };
+    }
+    default:
+      return { resolution: null };
+  }
+};
+
+export const recordConflict = async (
+  entity: string,
+  local: any,
+  remote: any,
+  base: any | null,
+  policy: ConflictPolicy,
+  outcome: ConflictOutcome
+): Promise<void> => {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const resolvedData = outcome.resolution === 'merged' ? JSON.stringify(outcome.merged) : null;
+
+  // A record already waiting for review just gets the latest server version
+  const pending = await db.getFirstAsync<{ id: number }>(
+    `SELECT id FROM sync_conflicts WHERE entity = ? AND entity_uuid = ? AND kind = 'version' AND status = 'pending'`,
+    [entity, local.uuid]
+  );
+
+  if (pending) {
+    await db.runAsync(
+      `UPDATE sync_conflicts SET local_data = ?, remote_data = ?, status = ?, resolution = ?, resolved_data = ?, resolved_at = ? WHERE id = ?`,
+      [
+        JSON.stringify(local),
+        JSON.stringify(remote),
+        outcome.resolution ? 'resolved' : 'pending',
+        outcome.resolution,
+        resolvedData,
+        outcome.resolution ? now : null,
+        pending.id
+      ]
+    );
+    return;
+  }
+
+  await db.runAsync(
+    `INSERT INTO sync_conflicts (entity, entity_uuid, local_data, remote_data, base_data, policy, status, resolution, resolved_data, created_at, resolved_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      entity,
+      local.uuid,
+      JSON.stringify(local),
+      JSON.stringify(remote),
+      base ? JSON.stringify(base) : null,
+      policy,
+      outcome.resolution ? 'resolved' : 'pending',
+      outcome.resolution,
+      resolvedData,
+      now,
+      outcome.resolution ? now : null
+    ]
+  );
+};
+
+// A server row that could not be stored next to the local record holding the same unique key.
+// Pulled again before review, it just refreshes the pending entry.
+export const recordDuplicateConflict = async (entity: string, local: any, remote: any): Promise<void> => {
+  const db = getDb();
+  const pending = await db.getFirstAsync<{ id: number }>(
+    `SELECT id FROM sync_conflicts WHERE entity = ? AND entity_uuid = ? AND kind = 'duplicate' AND status = 'pending'`,
+    [entity, remote.uuid]
+  );
+
+  if (pending) {
+    await db.runAsync(
+      'UPDATE sync_conflicts SET local_data = ?, remote_data = ? WHERE id = ?',
+      [JSON.stringify(local), JSON.stringify(remote), pending.id]
+    );
+    return;
+  }
+
+  await db.runAsync(
+    `INSERT INTO sync_conflicts (entity, entity_uuid, kind, local_data, remote_data, policy, status, created_at)
+     VALUES (?, ?, 'duplicate', ?, ?, 'manual', 'pending', ?)`,
+    [entity, remote.uuid, JSON.stringify(local), JSON.stringify(remote), new Date().toISOString()]
+  );
+};
+
+export const markConflictResolved = async (
+  id: number,
+  resolution: ConflictResolution,
+  resolvedData: Record<string, any> | null
+): Promise<void> => {
+  await getDb().runAsync(
+    `UPDATE sync_conflicts SET status = 'resolved', resolution = ?, resolved_data = ?, resolved_at = ? WHERE id = ?`,
+    [resolution, resolvedData ? JSON.stringify(resolvedData) : null, new Date().toISOString(), id]
+  );
+};
+
+export const getPendingConflicts = async (): Promise<SyncConflict[]> => {
+  const db = getDb();
+  return await db.getAllAsync<SyncConflict>(
+    `SELECT * FROM sync_conflicts WHERE status = 'pending' ORDER BY created_at ASC`
+  );
+};
+
+export const getPendingConflictCount = async (): Promise<number> => {
+  const db = getDb();
+  const result = await db.getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) as count FROM sync_conflicts WHERE status = 'pending'`
+  );
+  return result?.count || 0;
+};
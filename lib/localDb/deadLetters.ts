@@ -0,0 +1,136 @@
+// lib/localDb/deadLetters.ts
+import { getDb } from './index';
+import { CONFLICT_FIELDS } from './conflicts';
+import { getSyncBase, clearSyncBase } from './syncState';
+import { ENTITY_REFERENCES } from './dependencies';
+import { syncEvents } from './events';
+import { getEntity } from './entities';
+import { refreshNormalized } from './schema';
+import { auditedWrite } from './auditLog';
+
+export interface DeadLetter {
+  id: number;
+  entity: string;
+  entity_local_id: number | null;
+  entity_uuid: string | null;
+  entity_supabase_id: number | null;
+  operation: 'INSERT' | 'UPDATE' | 'DELETE' | 'PURGE';
+  payload: string;
+  retry_count: number;
+  last_error: string | null;
+  error_kind: string | null;
+  created_at: string;
+  dead_at: string | null;
+}
+
+export const getDeadLetters = async (): Promise<DeadLetter[]> => {
+  const db = getDb();
+  return await db.getAllAsync<DeadLetter>(
+    `SELECT * FROM sync_queue WHERE status = 'dead' ORDER BY entity ASC, error_kind ASC, last_error ASC, timestamp ASC`
+  );
+};
+
+export const getDeadLetterCount = async (): Promise<number> => {
+  const db = getDb();
+  const result = await db.getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) as count FROM sync_queue WHERE status = 'dead'`
+  );
+  return result?.count || 0;
+};
+
+// Put the entry back in the queue with a fresh retry budget; the last error is kept for reference
+export const retryDeadLetter = async (id: number): Promise<void> => {
+  const db = getDb();
+  await db.runAsync(
+    `UPDATE sync_queue SET status = 'pending', retry_count = 0, dead_at = NULL, next_attempt_at = NULL WHERE id = ? AND status = 'dead'`,
+    [id]
+  );
+  syncEvents.emit('queueChanged', {});
+};
+
+export const updateDeadLetterPayload = async (id: number, payload: Record<string, any>): Promise<void> => {
+  const db = getDb();
+  const entry = await db.getFirstAsync<DeadLetter>(
+    `SELECT * FROM sync_queue WHERE id = ? AND status = 'dead'`,
+    [id]
+  );
+  if (!entry) {
+    throw new Error('العنصر غير موجود في قائمة المزامنة الفاشلة');
+  }
+
+  // uuid identifies the record on the server and must not be edited away
+  await db.runAsync(
+    'UPDATE sync_queue SET payload = ? WHERE id = ?',
+    [JSON.stringify({ ...payload, uuid: entry.entity_uuid }), id]
+  );
+  syncEvents.emit('queueChanged', { entity: entry.entity });
+};
+
+// Drop the change for good and bring the local row back in line with what the server has
+export const discardDeadLetter = async (id: number): Promise<void> => {
+  const db = getDb();
+  const entry = await db.getFirstAsync<DeadLetter>(
+    `SELECT * FROM sync_queue WHERE id = ? AND status = 'dead'`,
+    [id]
+  );
+  if (!entry) {
+    throw new Error('العنصر غير موجود في قائمة المزامنة الفاشلة');
+  }
+
+  await db.withTransactionAsync(async () => {
+    await db.runAsync('DELETE FROM sync_queue WHERE id = ?', [id]);
+    if (!entry.entity_uuid) return;
+
+    const remaining = await db.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) as count FROM sync_queue WHERE entity = ? AND entity_uuid = ?',
+      [entry.entity, entry.entity_uuid]
+    );
+    if (remaining?.count) return;
+
+    if (entry.operation === 'INSERT') {
+      // Children created against this record would be left pointing at nothing
+      for (const [child, refs] of Object.entries(ENTITY_REFERENCES)) {
+        for (const ref of refs.filter(r => r.parent === entry.entity)) {
+          const dependents = await db.getFirstAsync<{ count: number }>(
+            `SELECT COUNT(*) as count FROM ${child} WHERE ${ref.uuidColumn} = ?`,
+            [entry.entity_uuid]
+          );
+          if (dependents?.count) {
+            throw new Error('لا يمكن تجاهل هذا السجل لوجود سجلات مرتبطة به');
+          }
+        }
+      }
+
+      // The record never reached the server, so discarding it removes it locally too
+      await db.runAsync(`DELETE FROM ${entry.entity} WHERE uuid = ? AND supabase_id IS NULL`, [entry.entity_uuid]);
+      return;
+    }
+
+    const base = await getSyncBase(entry.entity, entry.entity_uuid);
+    if (base) {
+      // Revert the local edit to the last version known to be on the server
+      const fields = CONFLICT_FIELDS[entry.entity] ?? [];
+      const uuid = entry.entity_uuid;
+      await auditedWrite(entry.entity, uuid, 'local', async () => {
+        await db.runAsync(
+          `UPDATE ${entry.entity} SET ${fields.map(f => `${f} = ?`).join(', ')}, deleted_at = ?, updated_at = ?, is_synced = 1, operation_type = NULL WHERE uuid = ?`,
+          [...fields.map(f => base.data[f] ?? null), base.data.deleted_at || null, base.updated_at || new Date().toISOString(), uuid]
+        );
+        await refreshNormalized(db, getEntity(entry.entity), uuid);
+      });
+      await clearSyncBase(entry.entity, entry.entity_uuid);
+    } else {
+      await db.runAsync(
+        `UPDATE ${entry.entity} SET is_synced = 1, operation_type = NULL WHERE uuid = ?`,
+        [entry.entity_uuid]
+      );
+    }
+  });
+
+  if (entry.entity_uuid) {
+    // A discarded INSERT removes the record; anything else reverts it
+    const operation = entry.operation === 'INSERT' ? 'DELETE' : 'UPDATE';
+    syncEvents.emit('change', { entity: entry.entity, operation, uuid: entry.entity_uuid, origin: 'local' });
+  }
+  syncEvents.emit('queueChanged', { entity: entry.entity });
+};
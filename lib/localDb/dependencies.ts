@@ -0,0 +1,112 @@
+// lib/localDb/dependencies.ts
+import { getDb } from './index';
+import { ENTITIES } from './entities';
+import type { RelationDefinition } from './schema';
+
+// A column holding a parent's server id, mirrored locally by the parent's uuid
+export type EntityReference = RelationDefinition;
+
+export const ENTITY_REFERENCES: Record<string, EntityReference[]> = Object.fromEntries(
+  ENTITIES.filter(entity => entity.relations?.length).map(entity => [entity.name, entity.relations!])
+);
+
+// The references other entities hold to `parent`
+export const childReferences = (parent: string): { child: string; ref: EntityReference }[] =>
+  Object.entries(ENTITY_REFERENCES).flatMap(([child, refs]) =>
+    refs.filter(ref => ref.parent === parent).map(ref => ({ child, ref }))
+  );
+
+// Parents before children, so a pushed child always finds its parent on the server
+const computeSyncOrder = (entities: string[]): string[] => {
+  const ordered: string[] = [];
+  const visit = (entity: string, path: string[]) => {
+    if (ordered.includes(entity)) return;
+    if (path.includes(entity)) {
+      throw new Error(`Circular sync dependency: ${[...path, entity].join(' -> ')}`);
+    }
+    for (const ref of ENTITY_REFERENCES[entity] ?? []) {
+      visit(ref.parent, [...path, entity]);
+    }
+    ordered.push(entity);
+  };
+  entities.forEach(entity => visit(entity, []));
+  return ordered;
+};
+
+export const SYNC_ORDER = computeSyncOrder(ENTITIES.map(entity => entity.name));
+
+export const compareSyncOrder = (a: string, b: string): number =>
+  SYNC_ORDER.indexOf(a) - SYNC_ORDER.indexOf(b);
+
+// Thrown while a parent has not reached the server yet; the change is retried later
+export class PendingDependencyError extends Error {
+  code = 'DEPENDENCY_PENDING';
+
+  constructor(entity: string, parent: string, parentUuid: string) {
+    super(`Waiting for ${parent} ${parentUuid} to sync before ${entity}`);
+    this.name = 'PendingDependencyError';
+  }
+}
+
+/**
+ * Turn a local payload into what the server expects: local-only uuid columns are dropped,
+ * and references queued before their parent was synced get the parent's server id now.
+ */
+export const resolveOutgoingReferences = async (
+  entity: string,
+  payload: Record<string, any>
+): Promise<Record<string, any>> => {
+  const refs = ENTITY_REFERENCES[entity];
+  if (!refs) return payload;
+
+  const db = getDb();
+  const resolved = { ...payload };
+  for (const ref of refs) {
+    if (!(ref.uuidColumn in resolved)) continue;
+
+    const parentUuid = resolved[ref.uuidColumn];
+    delete resolved[ref.uuidColumn];
+    if (resolved[ref.column] || !parentUuid) continue;
+
+    const parent = await db.getFirstAsync<{ supabase_id: number | null }>(
+      `SELECT supabase_id FROM ${ref.parent} WHERE uuid = ?`,
+      [parentUuid]
+    );
+    if (!parent?.supabase_id) {
+      throw new PendingDependencyError(entity, ref.parent, parentUuid);
+    }
+    resolved[ref.column] = parent.supabase_id;
+  }
+  return resolved;
+};
+
+/**
+ * Fill in both sides of every parent reference from whichever the caller provided
+ * (uuid from the local pickers, server id from older callers).
+ */
+export const resolveLocalReferences = async <T extends Record<string, any>>(
+  entity: string,
+  item: T
+): Promise<T> => {
+  const refs = ENTITY_REFERENCES[entity];
+  if (!refs) return item;
+
+  const db = getDb();
+  const resolved: Record<string, any> = { ...item };
+  for (const ref of refs) {
+    if (resolved[ref.uuidColumn]) {
+      const parent = await db.getFirstAsync<{ supabase_id: number | null }>(
+        `SELECT supabase_id FROM ${ref.parent} WHERE uuid = ?`,
+        [resolved[ref.uuidColumn]]
+      );
+      resolved[ref.column] = parent?.supabase_id ?? null;
+    } else if (resolved[ref.column]) {
+      const parent = await db.getFirstAsync<{ uuid: string }>(
+        `SELECT uuid FROM ${ref.parent} WHERE supabase_id = ?`,
+        [resolved[ref.column]]
+      );
+      resolved[ref.uuidColumn] = parent?.uuid ?? null;
+    }
+  }
+  return resolved as T;
+};
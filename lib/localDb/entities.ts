@@ -0,0 +1,77 @@
+// lib/localDb/entities.ts
+import { EntityDefinition } from './schema';
+
+// Declaring an entity here is enough for its table, repository CRUD and sync mapping;
+// only screens and any custom queries are written by hand.
+
+export const levelsEntity: EntityDefinition = {
+  name: 'levels',
+  remoteTable: 'levels',
+  displayName: 'المستوى',
+  columns: [
+    { name: 'name', type: 'text', label: 'اسم المستوى', required: true, normalized: true },
+  ],
+  uniqueKeys: [
+    { name: 'ux_levels_name', columns: ['name'], message: 'اسم المستوى موجود بالفعل' },
+  ],
+  conflictPolicy: 'last-writer-wins',
+};
+
+export const officesEntity: EntityDefinition = {
+  name: 'offices',
+  remoteTable: 'offices',
+  displayName: 'المركز',
+  columns: [
+    { name: 'name', type: 'text', label: 'اسم المركز', required: true, normalized: true },
+  ],
+  uniqueKeys: [
+    { name: 'ux_offices_name', columns: ['name'], message: 'اسم المركز موجود بالفعل' },
+  ],
+  conflictPolicy: 'last-writer-wins',
+  // Every office is pulled, so assignments by server id can be matched locally
+  officeColumn: 'uuid',
+};
+
+export const studentsEntity: EntityDefinition = {
+  name: 'students',
+  remoteTable: 'students',
+  displayName: 'الطالب',
+  columns: [
+    { name: 'name', type: 'text', label: 'اسم الطالب', required: true, normalized: true },
+    { name: 'birth_date', type: 'date', label: 'تاريخ الميلاد' },
+    { name: 'phone', type: 'text', label: 'رقم الهاتف' },
+    { name: 'address', type: 'text', label: 'عنوان السكن' },
+    { name: 'office_id', type: 'integer', label: 'المركز', required: true },
+    { name: 'level_id', type: 'integer', label: 'المستوى', required: true },
+  ],
+  relations: [
+    { column: 'office_id', uuidColumn: 'office_uuid', parent: 'offices' },
+    { column: 'level_id', uuidColumn: 'level_uuid', parent: 'levels' },
+  ],
+  uniqueKeys: [
+    {
+      name: 'ux_students_name_office_level',
+      columns: ['name', 'office_uuid', 'level_uuid'],
+      message: 'اسم الطالب موجود بالفعل في هذا المركز والمستوى',
+    },
+  ],
+  searchColumns: ['name', 'phone', 'address'],
+  fullTextSearch: true,
+  conflictPolicy: 'merge',
+  officeColumn: 'office_uuid',
+  writeAccess: 'office',
+};
+
+export const ENTITIES: EntityDefinition[] = [levelsEntity, officesEntity, studentsEntity];
+
+export const getEntity = (name: string): EntityDefinition => {
+  const definition = ENTITIES.find(entity => entity.name === name);
+  if (!definition) {
+    throw new Error(`Unknown entity: ${name}`);
+  }
+  return definition;
+};
+
+// Realtime and PostgREST speak in remote table names
+export const getEntityByRemoteTable = (table: string): EntityDefinition | undefined =>
+  ENTITIES.find(entity => entity.remoteTable === table);
@@ -0,0 +1,57 @@
+// lib/localDb/events.ts
+import type { SyncResult } from './syncManager';
+
+// local: edited on this device; remote: merged from the server (pull or realtime)
+export type ChangeOrigin = 'local' | 'remote';
+
+export interface EntityChangeEvent {
+  entity: string;
+  operation: 'INSERT' | 'UPDATE' | 'DELETE';
+  uuid: string;
+  origin: ChangeOrigin;
+}
+
+export interface SyncEventMap {
+  change: EntityChangeEvent;
+  // A queued change reached the server; the local row's sync flags changed
+  pushed: { entity: string; uuid: string };
+  syncStart: { startedAt: Date };
+  syncEnd: SyncResult;
+  // Pending or dead-letter counts may have changed
+  queueChanged: { entity?: string };
+  connectivity: { isConnected: boolean };
+  // The signed-in user's capabilities or offices were refreshed
+  accessChanged: { userId: string };
+}
+
+export type SyncEventName = keyof SyncEventMap;
+export type SyncEventHandler<K extends SyncEventName> = (payload: SyncEventMap[K]) => void;
+
+class SyncEventBus {
+  private handlers = new Map<SyncEventName, Set<SyncEventHandler<any>>>();
+
+  // Returns an unsubscribe function
+  on<K extends SyncEventName>(name: K, handler: SyncEventHandler<K>): () => void {
+    let handlers = this.handlers.get(name);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(name, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  emit<K extends SyncEventName>(name: K, payload: SyncEventMap[K]): void {
+    this.handlers.get(name)?.forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`Sync event handler for "${name}" failed:`, error);
+      }
+    });
+  }
+}
+
+export const syncEvents = new SyncEventBus();
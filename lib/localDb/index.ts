@@ -1,123 +1,42 @@
 // lib/localDb/index.ts
 import * as SQLite from 'expo-sqlite';
+import { runMigrations } from './migrations';
 
 let db: SQLite.SQLiteDatabase | null = null;
+let initPromise: Promise<void> | null = null;
 
-export const initDb = async (): Promise<void> => {
-  if (db) return;
-  
-  try {
-    db = await SQLite.openDatabaseAsync('esm.db', { useNewConnection: true });
-    await db.execAsync('PRAGMA foreign_keys = ON;');
-    await db.execAsync('PRAGMA journal_mode = WAL;');
-    await db.execAsync('PRAGMA synchronous = NORMAL;');
-    
-    // Create profiles table
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS local_profiles (
-        supabase_id TEXT PRIMARY KEY,
-        email TEXT UNIQUE,
-        role TEXT,
-        full_name TEXT,
-        avatar_url TEXT,
-        password_hash TEXT,
-        last_login_at TEXT NOT NULL DEFAULT (datetime('now')),
-        created_at TEXT NOT NULL DEFAULT (datetime('now')),
-        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-      );
-    `);
+const openAndMigrate = async (): Promise<void> => {
+  const connection = await SQLite.openDatabaseAsync('esm.db', { useNewConnection: true });
 
-    // Create levels table
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS levels (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        uuid TEXT UNIQUE NOT NULL,
-        name TEXT NOT NULL,
-        supabase_id INTEGER UNIQUE,
-        is_synced INTEGER DEFAULT 0,
-        operation_type TEXT,
-        created_at TEXT NOT NULL DEFAULT (datetime('now')),
-        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-        deleted_at TEXT,
-        UNIQUE(name) WHERE deleted_at IS NULL
-      );
-    `);
+  try {
+    await connection.execAsync('PRAGMA foreign_keys = ON;');
+    await connection.execAsync('PRAGMA journal_mode = WAL;');
+    await connection.execAsync('PRAGMA synchronous = NORMAL;');
 
-    // Create offices table
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS offices (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        uuid TEXT UNIQUE NOT NULL,
-        name TEXT NOT NULL,
-        supabase_id INTEGER UNIQUE,
-        is_synced INTEGER DEFAULT 0,
-        operation_type TEXT,
-        created_at TEXT NOT NULL DEFAULT (datetime('now')),
-        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-        deleted_at TEXT,
-        UNIQUE(name) WHERE deleted_at IS NULL
-      );
-    `);
+    // Bring the schema up to date; refuses to open a database newer than the app
+    await runMigrations(connection);
+  } catch (error) {
+    // Leave no half-initialized connection behind so a later initDb() can retry
+    await connection.closeAsync().catch(() => {});
+    throw error;
+  }
 
-    // Create students table
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS students (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        uuid TEXT UNIQUE NOT NULL,
-        name TEXT NOT NULL,
-        birth_date TEXT,
-        phone TEXT,
-        address TEXT,
-        office_id INTEGER NOT NULL,
-        level_id INTEGER NOT NULL,
-        supabase_id INTEGER UNIQUE,
-        is_synced INTEGER DEFAULT 0,
-        operation_type TEXT,
-        created_at TEXT NOT NULL DEFAULT (datetime('now')),
-        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-        deleted_at TEXT,
-        FOREIGN KEY (office_id) REFERENCES offices(supabase_id) ON DELETE RESTRICT,
-        FOREIGN KEY (level_id) REFERENCES levels(supabase_id) ON DELETE RESTRICT,
-        UNIQUE(name, office_id, level_id) WHERE deleted_at IS NULL
-      );
-    `);
+  // Only expose the connection once the schema is current
+  db = connection;
+};
 
-    // Create sync queue table
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS sync_queue (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        entity TEXT NOT NULL,
-        entity_local_id INTEGER,
-        entity_uuid TEXT,
-        entity_supabase_id INTEGER,
-        operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
-        payload TEXT NOT NULL,
-        timestamp INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
-        retry_count INTEGER DEFAULT 0,
-        last_error TEXT,
-        created_at TEXT NOT NULL DEFAULT (datetime('now'))
-      );
-    `);
+export const initDb = async (): Promise<void> => {
+  if (db) return;
 
-    // Create indexes for better performance
-    await db.execAsync(`
-      CREATE INDEX IF NOT EXISTS idx_levels_uuid ON levels(uuid);
-      CREATE INDEX IF NOT EXISTS idx_levels_supabase_id ON levels(supabase_id);
-      CREATE INDEX IF NOT EXISTS idx_levels_sync ON levels(is_synced, operation_type);
-      
-      CREATE INDEX IF NOT EXISTS idx_offices_uuid ON offices(uuid);
-      CREATE INDEX IF NOT EXISTS idx_offices_supabase_id ON offices(supabase_id);
-      CREATE INDEX IF NOT EXISTS idx_offices_sync ON offices(is_synced, operation_type);
-      
-      CREATE INDEX IF NOT EXISTS idx_students_uuid ON students(uuid);
-      CREATE INDEX IF NOT EXISTS idx_students_supabase_id ON students(supabase_id);
-      CREATE INDEX IF NOT EXISTS idx_students_sync ON students(is_synced, operation_type);
-      CREATE INDEX IF NOT EXISTS idx_students_office_level ON students(office_id, level_id);
-      
-      CREATE INDEX IF NOT EXISTS idx_sync_queue_entity ON sync_queue(entity, timestamp);
-      CREATE INDEX IF NOT EXISTS idx_sync_queue_retry ON sync_queue(retry_count);
-    `);
+  // Screens and the root layout may call initDb() concurrently; share one run
+  if (!initPromise) {
+    initPromise = openAndMigrate().finally(() => {
+      initPromise = null;
+    });
+  }
 
+  try {
+    await initPromise;
     console.log('✅ Database initialized successfully with enhanced schema');
   } catch (error) {
     console.error('❌ Database initialization failed:', error);
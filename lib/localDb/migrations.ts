@@ -0,0 +1,525 @@
+// lib/localDb/migrations.ts
+import * as SQLite from 'expo-sqlite';
+import { applyEntitySchemas } from './schema';
+import { ENTITIES } from './entities';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+// Ordered list of schema migrations. Never edit a migration that has shipped:
+// append a new one with the next version number instead.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    // Uses IF NOT EXISTS so databases created before versioning are adopted as-is
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS local_profiles (
+          supabase_id TEXT PRIMARY KEY,
+          email TEXT UNIQUE,
+          role TEXT,
+          full_name TEXT,
+          avatar_url TEXT,
+          password_hash TEXT,
+          last_login_at TEXT NOT NULL DEFAULT (datetime('now')),
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+
+        CREATE TABLE IF NOT EXISTS levels (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          uuid TEXT UNIQUE NOT NULL,
+          name TEXT NOT NULL,
+          supabase_id INTEGER UNIQUE,
+          is_synced INTEGER DEFAULT 0,
+          operation_type TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          deleted_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS offices (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          uuid TEXT UNIQUE NOT NULL,
+          name TEXT NOT NULL,
+          supabase_id INTEGER UNIQUE,
+          is_synced INTEGER DEFAULT 0,
+          operation_type TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          deleted_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS students (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          uuid TEXT UNIQUE NOT NULL,
+          name TEXT NOT NULL,
+          birth_date TEXT,
+          phone TEXT,
+          address TEXT,
+          office_id INTEGER NOT NULL,
+          level_id INTEGER NOT NULL,
+          supabase_id INTEGER UNIQUE,
+          is_synced INTEGER DEFAULT 0,
+          operation_type TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          deleted_at TEXT,
+          FOREIGN KEY (office_id) REFERENCES offices(supabase_id) ON DELETE RESTRICT,
+          FOREIGN KEY (level_id) REFERENCES levels(supabase_id) ON DELETE RESTRICT
+        );
+
+        CREATE TABLE IF NOT EXISTS sync_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT NOT NULL,
+          entity_local_id INTEGER,
+          entity_uuid TEXT,
+          entity_supabase_id INTEGER,
+          operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+          payload TEXT NOT NULL,
+          timestamp INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+          retry_count INTEGER DEFAULT 0,
+          last_error TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+
+        -- SQLite has no partial table constraints, so uniqueness among live rows is a partial index
+        CREATE UNIQUE INDEX IF NOT EXISTS ux_levels_name ON levels(name) WHERE deleted_at IS NULL;
+        CREATE UNIQUE INDEX IF NOT EXISTS ux_offices_name ON offices(name) WHERE deleted_at IS NULL;
+        CREATE UNIQUE INDEX IF NOT EXISTS ux_students_name_office_level ON students(name, office_id, level_id) WHERE deleted_at IS NULL;
+
+        CREATE INDEX IF NOT EXISTS idx_levels_uuid ON levels(uuid);
+        CREATE INDEX IF NOT EXISTS idx_levels_supabase_id ON levels(supabase_id);
+        CREATE INDEX IF NOT EXISTS idx_levels_sync ON levels(is_synced, operation_type);
+
+        CREATE INDEX IF NOT EXISTS idx_offices_uuid ON offices(uuid);
+        CREATE INDEX IF NOT EXISTS idx_offices_supabase_id ON offices(supabase_id);
+        CREATE INDEX IF NOT EXISTS idx_offices_sync ON offices(is_synced, operation_type);
+
+        CREATE INDEX IF NOT EXISTS idx_students_uuid ON students(uuid);
+        CREATE INDEX IF NOT EXISTS idx_students_supabase_id ON students(supabase_id);
+        CREATE INDEX IF NOT EXISTS idx_students_sync ON students(is_synced, operation_type);
+        CREATE INDEX IF NOT EXISTS idx_students_office_level ON students(office_id, level_id);
+
+        CREATE INDEX IF NOT EXISTS idx_sync_queue_entity ON sync_queue(entity, timestamp);
+        CREATE INDEX IF NOT EXISTS idx_sync_queue_retry ON sync_queue(retry_count);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'sync_state',
+    // Per-entity pull watermark: the (updated_at, id) of the last remote row merged
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS sync_state (
+          entity TEXT PRIMARY KEY,
+          last_updated_at TEXT,
+          last_remote_id INTEGER,
+          last_pulled_at TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'sync_conflicts',
+    up: async (db) => {
+      await db.execAsync(`
+        -- Snapshot of a row as last seen on the server, captured when it is first edited locally
+        CREATE TABLE IF NOT EXISTS sync_base (
+          entity TEXT NOT NULL,
+          entity_uuid TEXT NOT NULL,
+          updated_at TEXT,
+          data TEXT NOT NULL,
+          PRIMARY KEY (entity, entity_uuid)
+        );
+
+        CREATE TABLE IF NOT EXISTS sync_conflicts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT NOT NULL,
+          entity_uuid TEXT NOT NULL,
+          local_data TEXT NOT NULL,
+          remote_data TEXT NOT NULL,
+          base_data TEXT,
+          policy TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'resolved')),
+          resolution TEXT CHECK (resolution IN ('local', 'remote', 'merged')),
+          resolved_data TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          resolved_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sync_conflicts_status ON sync_conflicts(status, entity);
+        CREATE INDEX IF NOT EXISTS idx_sync_conflicts_uuid ON sync_conflicts(entity, entity_uuid);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'sync_queue_dead_letters',
+    // Entries that exhausted their retries are parked as 'dead' instead of being deleted
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE sync_queue ADD COLUMN status TEXT NOT NULL DEFAULT 'pending';
+        ALTER TABLE sync_queue ADD COLUMN dead_at TEXT;
+        UPDATE sync_queue SET status = 'dead', dead_at = datetime('now') WHERE retry_count >= 3;
+        CREATE INDEX IF NOT EXISTS idx_sync_queue_status ON sync_queue(status, timestamp);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'sync_queue_backoff',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE sync_queue ADD COLUMN next_attempt_at TEXT;
+        ALTER TABLE sync_queue ADD COLUMN error_kind TEXT;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'student_parent_uuids',
+    up: async (db) => {
+      // Students point at their office/level by uuid, so they can reference parents created offline.
+      // office_id/level_id keep the server ids and stay NULL until the parent is synced.
+      // SQLite cannot drop a foreign key in place, hence the table rebuild.
+      await db.execAsync(`
+        CREATE TABLE students_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          uuid TEXT UNIQUE NOT NULL,
+          name TEXT NOT NULL,
+          birth_date TEXT,
+          phone TEXT,
+          address TEXT,
+          office_id INTEGER,
+          level_id INTEGER,
+          office_uuid TEXT,
+          level_uuid TEXT,
+          supabase_id INTEGER UNIQUE,
+          is_synced INTEGER DEFAULT 0,
+          operation_type TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          deleted_at TEXT,
+          FOREIGN KEY (office_uuid) REFERENCES offices(uuid) ON DELETE RESTRICT,
+          FOREIGN KEY (level_uuid) REFERENCES levels(uuid) ON DELETE RESTRICT
+        );
+
+        INSERT INTO students_new (
+          id, uuid, name, birth_date, phone, address, office_id, level_id, office_uuid, level_uuid,
+          supabase_id, is_synced, operation_type, created_at, updated_at, deleted_at
+        )
+        SELECT
+          s.id, s.uuid, s.name, s.birth_date, s.phone, s.address, s.office_id, s.level_id,
+          (SELECT o.uuid FROM offices o WHERE o.supabase_id = s.office_id),
+          (SELECT l.uuid FROM levels l WHERE l.supabase_id = s.level_id),
+          s.supabase_id, s.is_synced, s.operation_type, s.created_at, s.updated_at, s.deleted_at
+        FROM students s;
+
+        DROP TABLE students;
+        ALTER TABLE students_new RENAME TO students;
+
+        CREATE UNIQUE INDEX ux_students_name_office_level ON students(name, office_uuid, level_uuid) WHERE deleted_at IS NULL;
+        CREATE INDEX idx_students_uuid ON students(uuid);
+        CREATE INDEX idx_students_supabase_id ON students(supabase_id);
+        CREATE INDEX idx_students_sync ON students(is_synced, operation_type);
+        CREATE INDEX idx_students_office_level ON students(office_uuid, level_uuid);
+        CREATE INDEX idx_students_office_id ON students(office_id);
+        CREATE INDEX idx_students_level_id ON students(level_id);
+
+        -- A server id written into a student (pull, conflict resolution) brings the matching parent uuid along
+        CREATE TRIGGER trg_students_insert_refs AFTER INSERT ON students
+        BEGIN
+          UPDATE students SET
+            office_uuid = CASE WHEN NEW.office_id IS NULL THEN NEW.office_uuid
+              ELSE (SELECT uuid FROM offices WHERE supabase_id = NEW.office_id) END,
+            level_uuid = CASE WHEN NEW.level_id IS NULL THEN NEW.level_uuid
+              ELSE (SELECT uuid FROM levels WHERE supabase_id = NEW.level_id) END
+          WHERE id = NEW.id;
+        END;
+
+        CREATE TRIGGER trg_students_office_id AFTER UPDATE OF office_id ON students
+        WHEN NEW.office_id IS NOT NULL
+        BEGIN
+          UPDATE students SET office_uuid = (SELECT uuid FROM offices WHERE supabase_id = NEW.office_id)
+          WHERE id = NEW.id;
+        END;
+
+        CREATE TRIGGER trg_students_level_id AFTER UPDATE OF level_id ON students
+        WHEN NEW.level_id IS NOT NULL
+        BEGIN
+          UPDATE students SET level_uuid = (SELECT uuid FROM levels WHERE supabase_id = NEW.level_id)
+          WHERE id = NEW.id;
+        END;
+
+        -- Once a parent gets its server id, rewrite the students that only knew it by uuid
+        -- (and link students that arrived from the server before their parent did)
+        CREATE TRIGGER trg_offices_supabase_id AFTER UPDATE OF supabase_id ON offices
+        WHEN NEW.supabase_id IS NOT NULL
+        BEGIN
+          UPDATE students SET office_id = NEW.supabase_id WHERE office_uuid = NEW.uuid;
+          UPDATE students SET office_uuid = NEW.uuid WHERE office_id = NEW.supabase_id AND office_uuid IS NULL;
+        END;
+
+        CREATE TRIGGER trg_offices_insert_refs AFTER INSERT ON offices
+        WHEN NEW.supabase_id IS NOT NULL
+        BEGIN
+          UPDATE students SET office_uuid = NEW.uuid WHERE office_id = NEW.supabase_id AND office_uuid IS NULL;
+        END;
+
+        CREATE TRIGGER trg_levels_supabase_id AFTER UPDATE OF supabase_id ON levels
+        WHEN NEW.supabase_id IS NOT NULL
+        BEGIN
+          UPDATE students SET level_id = NEW.supabase_id WHERE level_uuid = NEW.uuid;
+          UPDATE students SET level_uuid = NEW.uuid WHERE level_id = NEW.supabase_id AND level_uuid IS NULL;
+        END;
+
+        CREATE TRIGGER trg_levels_insert_refs AFTER INSERT ON levels
+        WHEN NEW.supabase_id IS NOT NULL
+        BEGIN
+          UPDATE students SET level_uuid = NEW.uuid WHERE level_id = NEW.supabase_id AND level_uuid IS NULL;
+        END;
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'normalize_arabic_digits',
+    up: async (db) => {
+      // Search now folds Arabic-Indic and Persian digits; the index is rebuilt by applyEntitySchemas
+      await db.execAsync('DROP TABLE IF EXISTS students_fts;');
+    },
+  },
+  {
+    version: 8,
+    name: 'duplicate_dismissals',
+    // Pairs an admin marked as different students, so the duplicate finder stops suggesting them
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS duplicate_dismissals (
+          entity TEXT NOT NULL,
+          first_uuid TEXT NOT NULL,
+          second_uuid TEXT NOT NULL,
+          dismissed_at TEXT NOT NULL DEFAULT (datetime('now')),
+          PRIMARY KEY (entity, first_uuid, second_uuid)
+        );
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'recycle_bin',
+    up: async (db) => {
+      // Who deleted a record, and a PURGE operation that removes it from the server for good.
+      // SQLite cannot alter a CHECK constraint, hence the sync_queue rebuild.
+      await db.execAsync(`
+        ALTER TABLE levels ADD COLUMN deleted_by TEXT;
+        ALTER TABLE offices ADD COLUMN deleted_by TEXT;
+        ALTER TABLE students ADD COLUMN deleted_by TEXT;
+
+        CREATE TABLE sync_queue_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT NOT NULL,
+          entity_local_id INTEGER,
+          entity_uuid TEXT,
+          entity_supabase_id INTEGER,
+          operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE', 'PURGE')),
+          payload TEXT NOT NULL,
+          timestamp INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+          retry_count INTEGER DEFAULT 0,
+          last_error TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          status TEXT NOT NULL DEFAULT 'pending',
+          dead_at TEXT,
+          next_attempt_at TEXT,
+          error_kind TEXT
+        );
+
+        INSERT INTO sync_queue_new (
+          id, entity, entity_local_id, entity_uuid, entity_supabase_id, operation, payload, timestamp,
+          retry_count, last_error, created_at, status, dead_at, next_attempt_at, error_kind
+        )
+        SELECT
+          id, entity, entity_local_id, entity_uuid, entity_supabase_id, operation, payload, timestamp,
+          retry_count, last_error, created_at, status, dead_at, next_attempt_at, error_kind
+        FROM sync_queue;
+
+        DROP TABLE sync_queue;
+        ALTER TABLE sync_queue_new RENAME TO sync_queue;
+
+        CREATE INDEX idx_sync_queue_entity ON sync_queue(entity, timestamp);
+        CREATE INDEX idx_sync_queue_retry ON sync_queue(retry_count);
+        CREATE INDEX idx_sync_queue_status ON sync_queue(status, timestamp);
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'audit_log',
+    up: async (db) => {
+      // Field-level history of every record. Append-only: rows are never edited or removed,
+      // only marked once the server has them.
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          uuid TEXT NOT NULL UNIQUE,
+          entity TEXT NOT NULL,
+          entity_uuid TEXT NOT NULL,
+          operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+          changes TEXT NOT NULL,
+          actor TEXT,
+          origin TEXT NOT NULL CHECK (origin IN ('local', 'remote')),
+          created_at TEXT NOT NULL,
+          is_synced INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_audit_log_record ON audit_log(entity, entity_uuid, created_at);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_unsynced ON audit_log(is_synced, origin);
+
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+        BEFORE UPDATE OF uuid, entity, entity_uuid, operation, changes, actor, origin, created_at ON audit_log
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_delete
+        BEFORE DELETE ON audit_log
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'office_access',
+    up: async (db) => {
+      // The signed-in user's office assignments, cached for offline use. allowed_offices is what
+      // office-scoped reads and writes check: every office for admins, the assigned ones otherwise.
+      // sync_state.scope records which offices a pull watermark was taken for.
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS user_offices (
+          user_id TEXT NOT NULL,
+          office_id INTEGER NOT NULL,
+          PRIMARY KEY (user_id, office_id)
+        );
+
+        ALTER TABLE sync_state ADD COLUMN scope TEXT;
+
+        CREATE VIEW IF NOT EXISTS allowed_offices AS
+        SELECT offices.uuid AS office_uuid, offices.supabase_id AS office_id
+        FROM offices
+        JOIN (SELECT supabase_id, role FROM local_profiles ORDER BY last_login_at DESC LIMIT 1) AS me
+        WHERE me.role = 'admin'
+           OR offices.supabase_id IN (SELECT office_id FROM user_offices WHERE user_id = me.supabase_id);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'profile_permissions',
+    up: async (db) => {
+      // The role's capabilities as a JSON array, cached for offline use. Users holding
+      // offices.all see every office, as admins did before.
+      await db.execAsync(`
+        ALTER TABLE local_profiles ADD COLUMN permissions TEXT;
+
+        DROP VIEW IF EXISTS allowed_offices;
+        CREATE VIEW allowed_offices AS
+        SELECT offices.uuid AS office_uuid, offices.supabase_id AS office_id
+        FROM offices
+        JOIN (SELECT supabase_id, role, permissions FROM local_profiles ORDER BY last_login_at DESC LIMIT 1) AS me
+        WHERE me.role = 'admin'
+           OR EXISTS (SELECT 1 FROM json_each(COALESCE(me.permissions, '[]')) WHERE value = 'offices.all')
+           OR offices.supabase_id IN (SELECT office_id FROM user_offices WHERE user_id = me.supabase_id);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'duplicate_conflicts',
+    up: async (db) => {
+      // 'duplicate': a pulled row repeats a unique key of a different local record, e.g. the same
+      // office name added on two devices. entity_uuid is the server row's, which is not stored yet.
+      await db.execAsync(`
+        ALTER TABLE sync_conflicts ADD COLUMN kind TEXT NOT NULL DEFAULT 'version' CHECK (kind IN ('version', 'duplicate'));
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'profile_permissions_backfill',
+    up: async (db) => {
+      // Profiles cached before v12 get their role's capabilities as seeded on the server, so the
+      // cached JSON is all that capability checks and allowed_offices read from now on
+      await db.execAsync(`
+        UPDATE local_profiles SET permissions = CASE role
+          WHEN 'admin' THEN '["students.create","students.update","students.delete","students.merge","offices.all","levels.manage","offices.manage","users.manage","audit.read","recycleBin.manage","sync.manage"]'
+          WHEN 'supervisor' THEN '["offices.all","audit.read"]'
+          WHEN 'office_manager' THEN '["students.create","students.update","students.delete","students.merge","audit.read"]'
+          WHEN 'data_entry' THEN '["students.create","students.update"]'
+          ELSE '["students.create","students.update","students.delete"]'
+        END
+        WHERE permissions IS NULL;
+
+        DROP VIEW IF EXISTS allowed_offices;
+        CREATE VIEW allowed_offices AS
+        SELECT offices.uuid AS office_uuid, offices.supabase_id AS office_id
+        FROM offices
+        JOIN (SELECT supabase_id, permissions FROM local_profiles ORDER BY last_login_at DESC LIMIT 1) AS me
+        WHERE EXISTS (SELECT 1 FROM json_each(COALESCE(me.permissions, '[]')) WHERE value = 'offices.all')
+           OR offices.supabase_id IN (SELECT office_id FROM user_offices WHERE user_id = me.supabase_id);
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export const getSchemaVersion = async (db: SQLite.SQLiteDatabase): Promise<number> => {
+  const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return result?.user_version ?? 0;
+};
+
+export const runMigrations = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const currentVersion = await getSchemaVersion(db);
+
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `قاعدة البيانات المحلية (الإصدار ${currentVersion}) أحدث من إصدار التطبيق (${LATEST_SCHEMA_VERSION}). يرجى تحديث التطبيق.`
+    );
+  }
+
+  const pending = migrations.filter(m => m.version > currentVersion);
+  if (pending.length > 0) {
+    console.log(`🔧 Migrating database from version ${currentVersion} to ${LATEST_SCHEMA_VERSION}...`);
+  }
+
+  for (const migration of pending) {
+    // Each migration and its version bump commit together, so a failure leaves
+    // the database at the last fully applied version
+    await db.withTransactionAsync(async () => {
+      await migration.up(db);
+      await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+    });
+    console.log(`✅ Applied migration ${migration.version} (${migration.name})`);
+  }
+
+  // Then whatever the entity declarations added since (new entities, new columns)
+  await db.withTransactionAsync(async () => {
+    await applyEntitySchemas(db, ENTITIES);
+  });
+};
+
+// Guard against mis-ordered or duplicated versions slipping into the list
+migrations.forEach((migration, index) => {
+  if (index > 0 && migration.version <= migrations[index - 1].version) {
+    throw new Error(`Migration versions must be strictly increasing (found ${migration.version})`);
+  }
+});
@@ -0,0 +1,67 @@
+// lib/localDb/officeAccess.ts
+import { supabase } from '@/lib/supabase';
+import { getDb } from './index';
+import { EntityDefinition } from './schema';
+import { getLocalProfile } from '@/lib/localProfile';
+import { profileCapabilities } from '@/lib/capabilities';
+import { syncEvents } from './events';
+
+// Limits a query on an office-scoped entity to the offices the signed-in user may see
+export const officeScopeSql = (definition: EntityDefinition): string | undefined =>
+  definition.officeColumn
+    ? `${definition.name}.${definition.officeColumn} IN (SELECT office_uuid FROM allowed_offices)`
+    : undefined;
+
+// The server column a pull is filtered on: the office reference behind the local office uuid
+export const officeRemoteColumn = (definition: EntityDefinition): string | undefined =>
+  definition.relations?.find(relation => relation.uuidColumn === definition.officeColumn)?.column;
+
+// Server ids of the offices the signed-in user may see; null when every office is allowed
+export const getAllowedOfficeIds = async (): Promise<number[] | null> => {
+  const profile = await getLocalProfile();
+  if (!profile) return [];
+  if (profileCapabilities(profile).has('offices.all')) return null;
+
+  const rows = await getDb().getAllAsync<{ office_id: number }>(
+    'SELECT office_id FROM user_offices WHERE user_id = ? ORDER BY office_id',
+    [profile.supabase_id]
+  );
+  return rows.map(row => row.office_id);
+};
+
+// Refuses a write to a row of an office the user is not assigned to. Must run inside the
+// transaction, after the row's new values are known.
+export const checkOfficeAccess = async (definition: EntityDefinition, row: Record<string, any>): Promise<void> => {
+  if (!definition.officeColumn) return;
+
+  const allowed = await getDb().getFirstAsync<{ office_uuid: string }>(
+    'SELECT office_uuid FROM allowed_offices WHERE office_uuid = ?',
+    [row[definition.officeColumn] ?? null]
+  );
+  if (!allowed) {
+    throw new Error('لا تملك صلاحية على هذا المركز');
+  }
+};
+
+// Replace the cached office assignments of the signed-in user with the server's
+export const refreshOfficeAccess = async (): Promise<void> => {
+  const profile = await getLocalProfile();
+  if (!profile || profileCapabilities(profile).has('offices.all')) return;
+
+  const { data, error } = await supabase
+    .from('user_offices')
+    .select('office_id')
+    .eq('user_id', profile.supabase_id);
+  if (error) throw error;
+
+  const officeIds = [...new Set((data ?? []).map(row => row.office_id as number))];
+  const db = getDb();
+  await db.withTransactionAsync(async () => {
+    await db.runAsync('DELETE FROM user_offices WHERE user_id = ?', [profile.supabase_id]);
+    for (const officeId of officeIds) {
+      await db.runAsync('INSERT INTO user_offices (user_id, office_id) VALUES (?, ?)', [profile.supabase_id, officeId]);
+    }
+  });
+  syncEvents.emit('accessChanged', { userId: profile.supabase_id });
+  console.log(`🏢 Office access: ${officeIds.length} assigned offices`);
+};
@@ -0,0 +1,48 @@
+// lib/localDb/permissions.ts
+import { EntityDefinition } from './schema';
+import { checkOfficeAccess } from './officeAccess';
+import { getLocalProfile } from '@/lib/localProfile';
+import { Capability, profileCapabilities } from '@/lib/capabilities';
+
+// Purging removes a row from the server for good
+export type WriteAction = 'insert' | 'update' | 'delete' | 'restore' | 'purge';
+
+// Office-scoped entities have a capability per action; the others are managed as a whole
+const requiredCapability = (definition: EntityDefinition, action: WriteAction): Capability => {
+  if (action === 'purge') return 'recycleBin.manage';
+  if (definition.writeAccess !== 'office') return `${definition.name}.manage` as Capability;
+  switch (action) {
+    case 'insert': return `${definition.name}.create` as Capability;
+    case 'update': return `${definition.name}.update` as Capability;
+    default: return `${definition.name}.delete` as Capability;
+  }
+};
+
+/**
+ * Refuse a local write the server's row-level security would reject once it is pushed
+ * (see supabase/migrations). `row` holds the row's values after the write.
+ */
+export const checkPermission = async (
+  definition: EntityDefinition,
+  action: WriteAction,
+  row: Record<string, any>
+): Promise<void> => {
+  const profile = await getLocalProfile();
+  if (!profile) {
+    throw new Error('يجب تسجيل الدخول لتعديل البيانات');
+  }
+  if (!profileCapabilities(profile).has(requiredCapability(definition, action))) {
+    throw new Error(`لا تملك صلاحية تعديل ${definition.displayName}`);
+  }
+  if (definition.writeAccess === 'office') {
+    await checkOfficeAccess(definition, row);
+  }
+};
+
+// For writes the app makes on its own, which are skipped rather than reported when not allowed
+export const hasPermission = async (
+  definition: EntityDefinition,
+  action: WriteAction,
+  row: Record<string, any>
+): Promise<boolean> =>
+  await checkPermission(definition, action, row).then(() => true, () => false);
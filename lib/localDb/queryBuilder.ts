@@ -0,0 +1,304 @@
+// lib/localDb/queryBuilder.ts
+import { getDb } from './index';
+import { normalizeArabic, normalizeArabicSql } from '@/lib/arabic';
+
+export type WhereOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'like' | 'in' | 'not in' | 'is null' | 'is not null';
+export type SortDirection = 'asc' | 'desc';
+
+export interface OrderBy<T> {
+  column: keyof T & string;
+  direction: SortDirection;
+}
+
+// Values of the ordering columns (and id) of the last row of the previous page
+export type QueryCursor = Record<string, any>;
+
+export interface QueryPage<T> {
+  items: T[];
+  // null on the last page
+  nextCursor: QueryCursor | null;
+}
+
+/**
+ * What a repository exposes to its queries: the FROM clause (joins included), how every
+ * queryable column is written in SQL, and which columns a free-text search looks at.
+ * Column names are only ever taken from `columns`, never interpolated from callers.
+ */
+export interface QuerySource {
+  from: string;
+  select: string;
+  columns: Record<string, string>;
+  searchColumns: string[];
+  // Search columns mirrored into an FTS5 table keyed by the row id; matched there and ranked
+  fullText?: { table: string; columns: string[] };
+  // Soft-deleted rows are hidden unless includeDeleted() is used
+  deletedColumn: string;
+  // Condition every query is limited by, such as the user's offices; never lifted
+  scope?: string;
+}
+
+interface Condition {
+  sql: string;
+  params: any[];
+}
+
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, match => `\\${match}`);
+
+// Every word must appear, each as a word prefix: "احمد عل" finds "أحمد علي"
+const toFtsQuery = (text: string): string | null => {
+  const tokens = text.split(/\s+/).map(token => token.replace(/"/g, '')).filter(Boolean);
+  return tokens.length > 0 ? tokens.map(token => `"${token}"*`).join(' ') : null;
+};
+
+// Rows that only matched outside the FTS table sort after every ranked match (bm25 ranks are negative)
+const RANK_SQL = 'COALESCE(fts_match.rank, 0)';
+
+export class QueryBuilder<T> {
+  private conditions: Condition[] = [];
+  private ordering: OrderBy<T>[] = [];
+  private limitCount: number | null = null;
+  private offsetCount: number | null = null;
+  private cursor: QueryCursor | null = null;
+  private withDeleted = false;
+  private match: string | null = null;
+
+  constructor(private source: QuerySource) {}
+
+  where(column: keyof T & string, value: any): this;
+  where(column: keyof T & string, operator: WhereOperator, value?: any): this;
+  where(column: keyof T & string, operatorOrValue: any, value?: any): this {
+    const isOperator = arguments.length === 3 || operatorOrValue === 'is null' || operatorOrValue === 'is not null';
+    const operator: WhereOperator = isOperator ? operatorOrValue : '=';
+    const operand = isOperator ? value : operatorOrValue;
+    const sql = this.column(column);
+
+    switch (operator) {
+      case 'is null':
+      case 'is not null':
+        this.conditions.push({ sql: `${sql} ${operator.toUpperCase()}`, params: [] });
+        break;
+      case 'in':
+      case 'not in': {
+        const values: any[] = operand ?? [];
+        if (values.length === 0) {
+          // IN () matches nothing, NOT IN () everything
+          this.conditions.push({ sql: operator === 'in' ? '0' : '1', params: [] });
+        } else {
+          this.conditions.push({
+            sql: `${sql} ${operator.toUpperCase()} (${values.map(() => '?').join(', ')})`,
+            params: values,
+          });
+        }
+        break;
+      }
+      case 'like':
+        this.conditions.push({ sql: `${sql} LIKE ? ESCAPE '\\'`, params: [operand] });
+        break;
+      default:
+        // = NULL never matches; callers comparing with null mean IS NULL
+        if (operand === null || operand === undefined) {
+          this.conditions.push({ sql: `${sql} ${operator === '!=' ? 'IS NOT NULL' : 'IS NULL'}`, params: [] });
+        } else {
+          this.conditions.push({ sql: `${sql} ${operator} ?`, params: [operand] });
+        }
+    }
+    return this;
+  }
+
+  whereIn(column: keyof T & string, values: any[]): this {
+    return this.where(column, 'in', values);
+  }
+
+  /**
+   * Free-text search, Arabic spelling variants included. FTS columns are matched by word prefix
+   * and ranked; the remaining search columns (e.g. joined names) by normalized substring.
+   * Without an explicit orderBy the results come best match first.
+   */
+  search(text: string | null | undefined): this {
+    const term = text?.trim();
+    if (!term) return this;
+
+    const normalized = normalizeArabic(term);
+    const fullText = this.source.fullText;
+    const parts: Condition[] = [];
+
+    const ftsQuery = fullText ? toFtsQuery(normalized) : null;
+    if (ftsQuery) {
+      this.match = ftsQuery;
+      parts.push({ sql: 'fts_match.rowid IS NOT NULL', params: [] });
+    }
+
+    const pattern = `%${escapeLike(normalized)}%`;
+    for (const column of this.source.searchColumns.filter(c => !fullText?.columns.includes(c))) {
+      parts.push({ sql: `${normalizeArabicSql(this.column(column))} LIKE ? ESCAPE '\\'`, params: [pattern] });
+    }
+
+    if (parts.length > 0) {
+      this.conditions.push({ sql: `(${parts.map(p => p.sql).join(' OR ')})`, params: parts.flatMap(p => p.params) });
+    }
+    return this;
+  }
+
+  orderBy(column: keyof T & string, direction: SortDirection = 'asc'): this {
+    this.column(column);
+    this.ordering.push({ column, direction });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  offset(count: number): this {
+    this.offsetCount = count;
+    return this;
+  }
+
+  // Keyset paging: continue after the row the cursor was taken from
+  after(cursor: QueryCursor | null | undefined): this {
+    this.cursor = cursor ?? null;
+    return this;
+  }
+
+  includeDeleted(): this {
+    this.withDeleted = true;
+    return this;
+  }
+
+  async all(): Promise<T[]> {
+    const { sql, params } = this.build();
+    return await getDb().getAllAsync<T>(sql, params);
+  }
+
+  async first(): Promise<T | null> {
+    const previous = this.limitCount;
+    this.limitCount = 1;
+    const { sql, params } = this.build();
+    this.limitCount = previous;
+    return (await getDb().getFirstAsync<T>(sql, params)) ?? null;
+  }
+
+  // Rows matching the filters, ignoring ordering and paging
+  async count(): Promise<number> {
+    const from = this.buildFrom();
+    const { where, params } = this.buildWhere(false);
+    const result = await getDb().getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) as count FROM ${from.sql}${where}`,
+      [...from.params, ...params]
+    );
+    return result?.count ?? 0;
+  }
+
+  // One page of `limit` rows plus the cursor for the next one
+  async page(): Promise<QueryPage<T>> {
+    if (!this.limitCount) {
+      throw new Error('page() needs a limit');
+    }
+    const items = await this.all();
+    const last = items[items.length - 1] as Record<string, any> | undefined;
+    const nextCursor = last && items.length === this.limitCount
+      ? Object.fromEntries(this.effectiveOrdering().map(o => [o.column, last[o.column] ?? null]))
+      : null;
+    return { items, nextCursor };
+  }
+
+  private column(name: string): string {
+    if (name === 'search_rank' && this.match) return RANK_SQL;
+    const sql = this.source.columns[name];
+    if (!sql) {
+      throw new Error(`Unknown query column: ${name}`);
+    }
+    return sql;
+  }
+
+  // id breaks ties so every row has a distinct position, which keyset paging relies on
+  private effectiveOrdering(): OrderBy<T>[] {
+    const ordering = [...this.ordering];
+    if (this.match && ordering.length === 0) {
+      ordering.push({ column: 'search_rank' as keyof T & string, direction: 'asc' });
+    }
+    if (!ordering.some(o => o.column === 'id')) {
+      ordering.push({ column: 'id' as keyof T & string, direction: 'asc' });
+    }
+    return ordering;
+  }
+
+  /**
+   * Rows strictly after the cursor in the given ordering, with SQLite's NULL placement
+   * (first when ascending, last when descending): for each column, "equal on all earlier
+   * columns and after on this one".
+   */
+  private cursorCondition(ordering: OrderBy<T>[], cursor: QueryCursor): Condition {
+    const branches: Condition[] = ordering.map((order, index) => {
+      const equal = ordering.slice(0, index).map(o => ({ sql: `${this.column(o.column)} IS ?`, params: [cursor[o.column] ?? null] }));
+      const sql = this.column(order.column);
+      const value = cursor[order.column] ?? null;
+
+      let after: Condition;
+      if (order.direction === 'asc') {
+        after = value === null ? { sql: `${sql} IS NOT NULL`, params: [] } : { sql: `${sql} > ?`, params: [value] };
+      } else {
+        after = value === null ? { sql: '0', params: [] } : { sql: `(${sql} < ? OR ${sql} IS NULL)`, params: [value] };
+      }
+
+      const parts = [...equal, after];
+      return { sql: `(${parts.map(p => p.sql).join(' AND ')})`, params: parts.flatMap(p => p.params) };
+    });
+
+    return { sql: `(${branches.map(b => b.sql).join(' OR ')})`, params: branches.flatMap(b => b.params) };
+  }
+
+  private buildWhere(withCursor: boolean): { where: string; params: any[] } {
+    const conditions = [...this.conditions];
+    if (!this.withDeleted) {
+      const deleted = this.source.deletedColumn;
+      conditions.unshift({ sql: `(${deleted} IS NULL OR ${deleted} = '')`, params: [] });
+    }
+    if (this.source.scope) {
+      conditions.unshift({ sql: `(${this.source.scope})`, params: [] });
+    }
+    if (withCursor && this.cursor) {
+      conditions.push(this.cursorCondition(this.effectiveOrdering(), this.cursor));
+    }
+    if (conditions.length === 0) return { where: '', params: [] };
+    return {
+      where: ` WHERE ${conditions.map(c => c.sql).join(' AND ')}`,
+      params: conditions.flatMap(c => c.params),
+    };
+  }
+
+  private buildFrom(): Condition {
+    const fullText = this.source.fullText;
+    if (!this.match || !fullText) return { sql: this.source.from, params: [] };
+    return {
+      sql: `${this.source.from}
+        LEFT JOIN (SELECT rowid, rank FROM ${fullText.table} WHERE ${fullText.table} MATCH ?) AS fts_match
+        ON fts_match.rowid = ${this.column('id')}`,
+      params: [this.match],
+    };
+  }
+
+  private build(): { sql: string; params: any[] } {
+    const from = this.buildFrom();
+    const { where, params } = this.buildWhere(true);
+    const order = this.effectiveOrdering()
+      .map(o => `${this.column(o.column)} ${o.direction.toUpperCase()}`)
+      .join(', ');
+    const select = this.match ? `${this.source.select}, ${RANK_SQL} AS search_rank` : this.source.select;
+
+    let sql = `SELECT ${select} FROM ${from.sql}${where} ORDER BY ${order}`;
+    const queryParams = [...from.params, ...params];
+    if (this.limitCount !== null) {
+      sql += ' LIMIT ?';
+      queryParams.push(this.limitCount);
+    }
+    if (this.offsetCount !== null) {
+      // SQLite only accepts OFFSET after a LIMIT; -1 means no limit
+      if (this.limitCount === null) sql += ' LIMIT -1';
+      sql += ' OFFSET ?';
+      queryParams.push(this.offsetCount);
+    }
+    return { sql, params: queryParams };
+  }
+}
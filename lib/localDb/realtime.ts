@@ -0,0 +1,82 @@
+// lib/localDb/realtime.ts
+import { supabase } from '@/lib/supabase';
+
+export type RealtimeStatus = 'SUBSCRIBED' | 'TIMED_OUT' | 'CLOSED' | 'CHANNEL_ERROR';
+
+export interface RealtimeChangePayload {
+  table: string;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Record<string, any>;
+  old: Record<string, any>;
+}
+
+// The slice of a Supabase RealtimeChannel we rely on, so a mock channel can stand in for it
+export interface RealtimeChannelLike {
+  on(
+    type: 'postgres_changes',
+    filter: { event: '*'; schema: string; table: string },
+    callback: (payload: RealtimeChangePayload) => void
+  ): RealtimeChannelLike;
+  subscribe(callback?: (status: `${RealtimeStatus}`, error?: Error) => void): RealtimeChannelLike;
+  unsubscribe(): Promise<unknown>;
+}
+
+export type RealtimeChannelFactory = (name: string) => RealtimeChannelLike;
+
+export const supabaseChannelFactory: RealtimeChannelFactory = (name) =>
+  supabase.channel(name) as unknown as RealtimeChannelLike;
+
+interface RealtimeSubscriptionOptions {
+  tables: string[];
+  createChannel: RealtimeChannelFactory;
+  onRow: (table: string, row: Record<string, any>) => void;
+  onStatusChange: (connected: boolean) => void;
+}
+
+/**
+ * One channel listening to postgres changes on the synced tables.
+ * Rows are handed over as they arrive; the owner decides how to merge them
+ * and what to do while the channel is down.
+ */
+export class RealtimeSubscription {
+  private channel: RealtimeChannelLike | null = null;
+  private connected = false;
+
+  constructor(private options: RealtimeSubscriptionOptions) {}
+
+  start(): void {
+    if (this.channel) return;
+
+    let channel = this.options.createChannel('sync-changes');
+    for (const table of this.options.tables) {
+      channel = channel.on('postgres_changes', { event: '*', schema: 'public', table }, payload => {
+        // Rows are soft-deleted, so a hard DELETE carries nothing to merge
+        if (payload.eventType === 'DELETE' || !payload.new?.uuid) return;
+        this.options.onRow(table, payload.new);
+      });
+    }
+
+    this.channel = channel.subscribe((status, error) => {
+      const connected = status === 'SUBSCRIBED';
+      if (error) console.warn(`📡 Realtime channel ${status}:`, error.message);
+      if (connected !== this.connected) {
+        this.connected = connected;
+        this.options.onStatusChange(connected);
+      }
+    });
+  }
+
+  async stop(): Promise<void> {
+    const channel = this.channel;
+    this.channel = null;
+    if (this.connected) {
+      this.connected = false;
+      this.options.onStatusChange(false);
+    }
+    await channel?.unsubscribe();
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+}
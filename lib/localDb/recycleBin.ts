@@ -0,0 +1,54 @@
+// lib/localDb/recycleBin.ts
+import { BaseEntity, BaseRepository } from './baseRepository';
+import { levelsRepository } from './levelsRepository';
+import { officesRepository } from './officesRepository';
+import { studentsRepository } from './studentsRepository';
+import { SYNC_ORDER } from './dependencies';
+
+// Deleted records can be restored for this long; after that the purge removes them everywhere
+export const RECYCLE_BIN_RETENTION_DAYS = 30;
+
+export interface RecycleBinItem {
+  entity: string;
+  item: BaseEntity;
+  // Old enough for the purge to remove it
+  expired: boolean;
+}
+
+const repositories: BaseRepository<any>[] = [levelsRepository, officesRepository, studentsRepository];
+
+const repositoryFor = (entity: string): BaseRepository<any> => {
+  const repository = repositories.find(r => r.entity === entity);
+  if (!repository) {
+    throw new Error(`Unknown entity: ${entity}`);
+  }
+  return repository;
+};
+
+export const retentionCutoff = (retentionDays = RECYCLE_BIN_RETENTION_DAYS): string =>
+  new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+// Everything deleted, most recent first
+export const getRecycleBin = async (): Promise<RecycleBinItem[]> => {
+  const cutoff = retentionCutoff();
+  const deleted = await Promise.all(
+    repositories.map(async repository =>
+      (await repository.getDeleted()).map(item => ({ entity: repository.entity, item, expired: item.deleted_at! < cutoff }))
+    )
+  );
+  return deleted.flat().sort((a, b) => (b.item.deleted_at ?? '').localeCompare(a.item.deleted_at ?? ''));
+};
+
+export const restoreFromRecycleBin = async (entity: string, id: number): Promise<void> => {
+  await repositoryFor(entity).restore(id);
+};
+
+// Children before parents, so a parent whose last children go in the same purge goes too
+export const purgeRecycleBin = async (retentionDays = RECYCLE_BIN_RETENTION_DAYS): Promise<number> => {
+  const cutoff = retentionCutoff(retentionDays);
+  let purged = 0;
+  for (const entity of [...SYNC_ORDER].reverse()) {
+    purged += await repositoryFor(entity).purgeDeleted(cutoff);
+  }
+  return purged;
+};
@@ -0,0 +1,490 @@
+// lib/localDb/schema.ts
+import type * as SQLite from 'expo-sqlite';
+import type { ConflictPolicy } from './conflicts';
+import { normalizeArabic, normalizeArabicSql } from '@/lib/arabic';
+
+export type ColumnType = 'text' | 'integer' | 'real' | 'boolean' | 'date';
+
+export interface ColumnDefinition {
+  name: string;
+  type: ColumnType;
+  // Shown in validation messages
+  label: string;
+  required?: boolean;
+  // Also stored Arabic-normalized in <name>_normalized (local only); unique keys compare that form
+  normalized?: boolean;
+}
+
+// A column holding a parent's server id, mirrored locally by the parent's uuid
+export interface RelationDefinition {
+  column: string;
+  uuidColumn: string;
+  parent: string;
+  // When a pull deletes the parent while live children here still point at it: 'block' (the default)
+  // brings the parent back, 'cascade' deletes the children too
+  onDelete?: 'block' | 'cascade';
+}
+
+// Checked among live rows before every local write
+export interface UniqueKeyDefinition {
+  name: string;
+  columns: string[];
+  message: string;
+}
+
+// Who may change rows besides admins: nobody, or the users assigned to the row's office
+export type WriteAccess = 'admin' | 'office';
+
+/**
+ * Everything the local store and the sync engine need to know about a synced entity.
+ * `columns` are the user data columns shared with the server; the bookkeeping columns
+ * (id, uuid, supabase_id, sync flags, timestamps) are added to every entity.
+ */
+export interface EntityDefinition {
+  name: string;
+  remoteTable: string;
+  displayName: string;
+  columns: ColumnDefinition[];
+  uniqueKeys?: UniqueKeyDefinition[];
+  relations?: RelationDefinition[];
+  // Free-text search; defaults to the text columns
+  searchColumns?: string[];
+  // Mirror the search columns into an FTS5 table (<name>_fts) for ranked, Arabic-normalized search
+  fullTextSearch?: boolean;
+  conflictPolicy?: ConflictPolicy;
+  // Column holding the uuid of the office a row belongs to; users other than admins only
+  // read, write and pull rows of the offices assigned to them
+  officeColumn?: string;
+  // Mirrors the server's row-level security; defaults to 'admin'
+  writeAccess?: WriteAccess;
+}
+
+const META_FIELDS = ['uuid', 'created_at', 'updated_at', 'deleted_at', 'deleted_by'];
+
+// Bookkeeping columns every entity table has
+export const BOOKKEEPING_COLUMNS = ['id', 'uuid', 'supabase_id', 'is_synced', 'operation_type', 'created_at', 'updated_at', 'deleted_at', 'deleted_by'];
+
+const SQL_TYPES: Record<ColumnType, string> = {
+  text: 'TEXT',
+  integer: 'INTEGER',
+  real: 'REAL',
+  boolean: 'INTEGER',
+  date: 'TEXT',
+};
+
+// Columns that travel to and from the server
+export const syncedColumns = (definition: EntityDefinition): string[] =>
+  definition.columns.map(column => column.name);
+
+export const searchColumns = (definition: EntityDefinition): string[] =>
+  definition.searchColumns ?? definition.columns.filter(column => column.type === 'text').map(column => column.name);
+
+// Synced columns plus the local-only parent uuids
+export const localColumns = (definition: EntityDefinition): string[] => [
+  ...syncedColumns(definition),
+  ...(definition.relations ?? []).map(relation => relation.uuidColumn),
+];
+
+const normalizedColumn = (name: string): string => `${name}_normalized`;
+
+const normalizedSources = (definition: EntityDefinition): string[] =>
+  definition.columns.filter(column => column.normalized).map(column => column.name);
+
+// Every column of the local table besides the bookkeeping ones
+const storedColumns = (definition: EntityDefinition): string[] => [
+  ...localColumns(definition),
+  ...normalizedSources(definition).map(normalizedColumn),
+];
+
+// The columns a unique key is checked on: the normalized form where there is one
+export const uniqueKeyColumns = (definition: EntityDefinition, key: UniqueKeyDefinition): string[] =>
+  key.columns.map(name => normalizedSources(definition).includes(name) ? normalizedColumn(name) : name);
+
+// Normalized copies of the given values, for the normalized columns whose source is present
+const normalizedValues = (definition: EntityDefinition, values: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(
+    normalizedSources(definition)
+      .filter(name => name in values)
+      .map(name => [normalizedColumn(name), values[name] == null ? null : normalizeArabic(String(values[name]))])
+  );
+
+const normalizeValue = (column: ColumnDefinition | undefined, value: any): any => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed === '' ? null : trimmed;
+  }
+  if (column?.type === 'boolean') return value ? 1 : 0;
+  return value;
+};
+
+/**
+ * The declared columns present in `item`, normalized for storage (trimmed, empty as NULL),
+ * with the normalized copies alongside. Anything else the caller passed along (joined names,
+ * sync flags) is dropped.
+ */
+export const toLocalValues = (definition: EntityDefinition, item: Record<string, any>): Record<string, any> => {
+  const values: Record<string, any> = {};
+  for (const name of localColumns(definition)) {
+    if (!(name in item)) continue;
+    values[name] = normalizeValue(definition.columns.find(column => column.name === name), item[name]);
+  }
+  return { ...values, ...normalizedValues(definition, values) };
+};
+
+// What may be sent to the server for this entity; parent uuids stay until references are resolved
+export const toSyncPayload = (definition: EntityDefinition, payload: Record<string, any>): Record<string, any> => {
+  const allowed = new Set([...localColumns(definition), ...META_FIELDS]);
+  return Object.fromEntries(Object.entries(payload).filter(([key]) => allowed.has(key)));
+};
+
+// The first missing required value, as a user-facing message
+export const findMissingRequired = (definition: EntityDefinition, values: Record<string, any>): string | null => {
+  for (const column of definition.columns) {
+    if (!column.required) continue;
+    // Parents may not have a server id yet; the local uuid is what must be set
+    const relation = definition.relations?.find(r => r.column === column.name);
+    if (relation) {
+      if (values[relation.uuidColumn] == null) return `يرجى اختيار ${column.label}`;
+    } else if (values[column.name] == null) {
+      return `يرجى إدخال ${column.label}`;
+    }
+  }
+  return null;
+};
+
+// Recompute one row's normalized copies after its columns were written directly (conflict resolution, reverts)
+export const refreshNormalized = async (
+  db: SQLite.SQLiteDatabase,
+  definition: EntityDefinition,
+  uuid: string
+): Promise<void> => {
+  const sources = normalizedSources(definition);
+  if (sources.length === 0) return;
+
+  const row = await db.getFirstAsync<Record<string, any>>(
+    `SELECT ${sources.join(', ')} FROM ${definition.name} WHERE uuid = ?`,
+    [uuid]
+  );
+  if (!row) return;
+
+  const values = normalizedValues(definition, row);
+  const columns = Object.keys(values);
+  await db.runAsync(
+    `UPDATE ${definition.name} SET ${columns.map(name => `${name} = ?`).join(', ')} WHERE uuid = ?`,
+    [...columns.map(name => values[name]), uuid]
+  );
+};
+
+// The synced columns of a server row as stored locally, normalized copies included
+const remoteValues = (definition: EntityDefinition, remoteItem: Record<string, any>): Record<string, any> => {
+  const values = Object.fromEntries(syncedColumns(definition).map(name => [name, remoteItem[name] ?? null]));
+  return { ...values, ...normalizedValues(definition, values) };
+};
+
+// A pulled row repeating a unique key of another live local row, e.g. the same name added on two
+// devices. Carries that row, so the sync manager can record the pair for review instead.
+export class RemoteRowCollisionError extends Error {
+  code = 'REMOTE_ROW_COLLISION';
+
+  constructor(public entity: string, public uuid: string, public existing: Record<string, any> | null, reason: string) {
+    super(`${entity} ${uuid} from the server collides with a local row (${reason})`);
+    this.name = 'RemoteRowCollisionError';
+  }
+}
+
+// The live local row a server row would collide with on one of the declared unique keys
+const findCollidingRow = async (
+  db: SQLite.SQLiteDatabase,
+  definition: EntityDefinition,
+  remoteItem: Record<string, any>
+): Promise<Record<string, any> | null> => {
+  const values = remoteValues(definition, remoteItem);
+  // Parents are keyed by uuid locally; the server row only knows their server ids
+  for (const relation of definition.relations ?? []) {
+    const parent = await db.getFirstAsync<{ uuid: string }>(
+      `SELECT uuid FROM ${relation.parent} WHERE supabase_id = ?`,
+      [remoteItem[relation.column] ?? null]
+    );
+    values[relation.uuidColumn] = parent?.uuid ?? null;
+  }
+
+  for (const key of definition.uniqueKeys ?? []) {
+    const columns = uniqueKeyColumns(definition, key);
+    if (columns.some(column => values[column] == null)) continue;
+    const row = await db.getFirstAsync<Record<string, any>>(
+      `SELECT * FROM ${definition.name}
+       WHERE ${columns.map(column => `${column} = ?`).join(' AND ')} AND uuid != ? AND (deleted_at IS NULL OR deleted_at = '')`,
+      [...columns.map(column => values[column]), remoteItem.uuid]
+    );
+    if (row) return row;
+  }
+  return null;
+};
+
+// Store a row pulled from the server; parent uuids are filled in by the reference triggers
+export const insertRemoteRow = async (
+  db: SQLite.SQLiteDatabase,
+  definition: EntityDefinition,
+  remoteItem: Record<string, any>
+): Promise<void> => {
+  const values = remoteValues(definition, remoteItem);
+  const columns = Object.keys(values);
+  try {
+    await db.runAsync(
+      `INSERT INTO ${definition.name}
+       (uuid, ${columns.join(', ')}, supabase_id, is_synced, operation_type, created_at, updated_at, deleted_at, deleted_by)
+       VALUES (?, ${columns.map(() => '?').join(', ')}, ?, 1, NULL, ?, ?, ?, ?)`,
+      [
+        remoteItem.uuid,
+        ...columns.map(name => values[name]),
+        remoteItem.id,
+        remoteItem.created_at || new Date().toISOString(),
+        remoteItem.updated_at || remoteItem.created_at || new Date().toISOString(),
+        remoteItem.deleted_at || null,
+        remoteItem.deleted_by || null,
+      ]
+    );
+  } catch (error: any) {
+    if (!String(error?.message).includes('UNIQUE constraint failed')) throw error;
+    const existing = await findCollidingRow(db, definition, remoteItem);
+    throw new RemoteRowCollisionError(definition.name, remoteItem.uuid, existing, error.message);
+  }
+};
+
+// Overwrite a local row with the server version and mark it clean
+export const updateRowFromRemote = async (
+  db: SQLite.SQLiteDatabase,
+  definition: EntityDefinition,
+  remoteItem: Record<string, any>
+): Promise<void> => {
+  const values = remoteValues(definition, remoteItem);
+  const columns = Object.keys(values);
+  await db.runAsync(
+    `UPDATE ${definition.name} SET ${columns.map(name => `${name} = ?`).join(', ')},
+     updated_at = ?, deleted_at = ?, deleted_by = ?, is_synced = 1, operation_type = NULL
+     WHERE uuid = ?`,
+    [
+      ...columns.map(name => values[name]),
+      remoteItem.updated_at || remoteItem.created_at,
+      remoteItem.deleted_at || null,
+      remoteItem.deleted_by || null,
+      remoteItem.uuid,
+    ]
+  );
+};
+
+const columnSql = (definition: EntityDefinition, name: string, isNew: boolean): string => {
+  const relation = definition.relations?.find(r => r.uuidColumn === name);
+  if (relation) {
+    return `${name} TEXT REFERENCES ${relation.parent}(uuid) ON DELETE RESTRICT`;
+  }
+  const column = definition.columns.find(c => c.name === name);
+  // Normalized copies are plain local text
+  if (!column) return `${name} TEXT`;
+  const isReference = definition.relations?.some(r => r.column === name);
+  // SQLite cannot add a NOT NULL column without a default, and server ids of parents arrive late
+  const notNull = column.required && !isReference && !isNew ? ' NOT NULL' : '';
+  return `${name} ${SQL_TYPES[column.type]}${notNull}`;
+};
+
+export const createTableSql = (definition: EntityDefinition): string => `
+  CREATE TABLE IF NOT EXISTS ${definition.name} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    uuid TEXT UNIQUE NOT NULL,
+    ${storedColumns(definition).map(name => `${columnSql(definition, name, false)},`).join('\n    ')}
+    supabase_id INTEGER UNIQUE,
+    is_synced INTEGER DEFAULT 0,
+    operation_type TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    deleted_at TEXT,
+    deleted_by TEXT
+  );
+`;
+
+const indexSql = (definition: EntityDefinition): string[] => {
+  const table = definition.name;
+  return [
+    `CREATE INDEX IF NOT EXISTS idx_${table}_uuid ON ${table}(uuid);`,
+    `CREATE INDEX IF NOT EXISTS idx_${table}_supabase_id ON ${table}(supabase_id);`,
+    `CREATE INDEX IF NOT EXISTS idx_${table}_sync ON ${table}(is_synced, operation_type);`,
+    ...(definition.relations ?? []).flatMap(relation => [
+      `CREATE INDEX IF NOT EXISTS idx_${table}_${relation.column} ON ${table}(${relation.column});`,
+      `CREATE INDEX IF NOT EXISTS idx_${table}_${relation.uuidColumn} ON ${table}(${relation.uuidColumn});`,
+    ]),
+    ...normalizedSources(definition).map(name =>
+      `CREATE INDEX IF NOT EXISTS idx_${table}_${normalizedColumn(name)} ON ${table}(${normalizedColumn(name)});`
+    ),
+    ...(definition.uniqueKeys ?? []).map(key =>
+      `CREATE UNIQUE INDEX IF NOT EXISTS ${key.name} ON ${table}(${key.columns.join(', ')}) WHERE deleted_at IS NULL;`
+    ),
+  ];
+};
+
+/**
+ * Keep both sides of every reference in step: a server id written into a child brings the
+ * parent uuid along, and a parent receiving its server id rewrites the children that only
+ * knew it by uuid (or arrived from the server before it did).
+ */
+const referenceTriggerSql = (definitions: EntityDefinition[]): string[] => {
+  const statements: string[] = [];
+
+  for (const entity of definitions) {
+    const table = entity.name;
+    const relations = entity.relations ?? [];
+    const children = definitions.flatMap(child =>
+      (child.relations ?? []).filter(r => r.parent === table).map(relation => ({ child: child.name, relation }))
+    );
+
+    // One AFTER INSERT trigger per table covers both its own parents and its children
+    const onInsert = [
+      ...(relations.length === 0 ? [] : [`
+          UPDATE ${table} SET
+            ${relations.map(r => `${r.uuidColumn} = CASE WHEN NEW.${r.column} IS NULL THEN NEW.${r.uuidColumn}
+              ELSE (SELECT uuid FROM ${r.parent} WHERE supabase_id = NEW.${r.column}) END`).join(',\n            ')}
+          WHERE id = NEW.id;`]),
+      ...children.map(({ child, relation: r }) => `
+          UPDATE ${child} SET ${r.uuidColumn} = NEW.uuid WHERE ${r.column} = NEW.supabase_id AND ${r.uuidColumn} IS NULL;`),
+    ];
+
+    statements.push(`
+      DROP TRIGGER IF EXISTS trg_${table}_insert_refs;
+      DROP TRIGGER IF EXISTS trg_${table}_supabase_id;
+    `);
+
+    if (onInsert.length > 0) {
+      statements.push(`
+        CREATE TRIGGER trg_${table}_insert_refs AFTER INSERT ON ${table}
+        BEGIN${onInsert.join('')}
+        END;
+      `);
+    }
+
+    for (const r of relations) {
+      statements.push(`
+        DROP TRIGGER IF EXISTS trg_${table}_${r.column};
+        CREATE TRIGGER trg_${table}_${r.column} AFTER UPDATE OF ${r.column} ON ${table}
+        WHEN NEW.${r.column} IS NOT NULL
+        BEGIN
+          UPDATE ${table} SET ${r.uuidColumn} = (SELECT uuid FROM ${r.parent} WHERE supabase_id = NEW.${r.column})
+          WHERE id = NEW.id;
+        END;
+      `);
+    }
+
+    if (children.length > 0) {
+      statements.push(`
+        CREATE TRIGGER trg_${table}_supabase_id AFTER UPDATE OF supabase_id ON ${table}
+        WHEN NEW.supabase_id IS NOT NULL
+        BEGIN${children.map(({ child, relation: r }) => `
+          UPDATE ${child} SET ${r.column} = NEW.supabase_id WHERE ${r.uuidColumn} = NEW.uuid;
+          UPDATE ${child} SET ${r.uuidColumn} = NEW.uuid WHERE ${r.column} = NEW.supabase_id AND ${r.uuidColumn} IS NULL;`).join('')}
+        END;
+      `);
+    }
+  }
+
+  return statements;
+};
+
+export const fullTextTable = (definition: EntityDefinition): string | null =>
+  definition.fullTextSearch ? `${definition.name}_fts` : null;
+
+/**
+ * The FTS table holds normalized copies of the search columns keyed by the row id, kept
+ * current by triggers. It is rebuilt from the base table whenever its columns change.
+ */
+const applyFullText = async (db: SQLite.SQLiteDatabase, definition: EntityDefinition): Promise<void> => {
+  const table = definition.name;
+  const fts = fullTextTable(definition);
+  const triggers = ['insert', 'update', 'delete'].map(event => `trg_${table}_fts_${event}`);
+
+  if (!fts) {
+    await db.execAsync(triggers.map(name => `DROP TRIGGER IF EXISTS ${name};`).join('\n'));
+    await db.execAsync(`DROP TABLE IF EXISTS ${table}_fts;`);
+    return;
+  }
+
+  const columns = searchColumns(definition);
+  const normalized = (row: string) => columns.map(column => normalizeArabicSql(`COALESCE(${row}.${column}, '')`)).join(', ');
+
+  const existing = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${fts})`);
+  if (existing.map(column => column.name).join(',') !== columns.join(',')) {
+    await db.execAsync(`
+      DROP TABLE IF EXISTS ${fts};
+      CREATE VIRTUAL TABLE ${fts} USING fts5(${columns.join(', ')}, tokenize = 'unicode61 remove_diacritics 2');
+      INSERT INTO ${fts} (rowid, ${columns.join(', ')}) SELECT id, ${normalized(table)} FROM ${table};
+    `);
+    console.log(`🔎 Built full-text index ${fts}`);
+  }
+
+  await db.execAsync(`
+    ${triggers.map(name => `DROP TRIGGER IF EXISTS ${name};`).join('\n')}
+
+    CREATE TRIGGER trg_${table}_fts_insert AFTER INSERT ON ${table}
+    BEGIN
+      INSERT INTO ${fts} (rowid, ${columns.join(', ')}) VALUES (NEW.id, ${normalized('NEW')});
+    END;
+
+    CREATE TRIGGER trg_${table}_fts_update AFTER UPDATE OF ${columns.join(', ')} ON ${table}
+    BEGIN
+      DELETE FROM ${fts} WHERE rowid = OLD.id;
+      INSERT INTO ${fts} (rowid, ${columns.join(', ')}) VALUES (NEW.id, ${normalized('NEW')});
+    END;
+
+    CREATE TRIGGER trg_${table}_fts_delete AFTER DELETE ON ${table}
+    BEGIN
+      DELETE FROM ${fts} WHERE rowid = OLD.id;
+    END;
+  `);
+};
+
+// Rows written before a column was normalized (or by older app versions) get their copy here
+const backfillNormalized = async (db: SQLite.SQLiteDatabase, definition: EntityDefinition): Promise<void> => {
+  for (const name of normalizedSources(definition)) {
+    const rows = await db.getAllAsync<{ id: number; value: string }>(
+      `SELECT id, ${name} AS value FROM ${definition.name} WHERE ${normalizedColumn(name)} IS NULL AND ${name} IS NOT NULL`
+    );
+    for (const row of rows) {
+      await db.runAsync(
+        `UPDATE ${definition.name} SET ${normalizedColumn(name)} = ? WHERE id = ?`,
+        [normalizeArabic(String(row.value)), row.id]
+      );
+    }
+    if (rows.length > 0) {
+      console.log(`🔤 Normalized ${rows.length} ${definition.name}.${name} values`);
+    }
+  }
+};
+
+/**
+ * Bring the tables in line with the declarations: create missing tables, add missing columns
+ * and indexes, and regenerate the reference triggers. Additive only; renames and removals
+ * still need a numbered migration. Triggers are created last, once every table exists.
+ */
+export const applyEntitySchemas = async (
+  db: SQLite.SQLiteDatabase,
+  definitions: EntityDefinition[]
+): Promise<void> => {
+  for (const definition of definitions) {
+    const existing = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${definition.name})`);
+
+    if (existing.length === 0) {
+      await db.execAsync(createTableSql(definition));
+      console.log(`🧱 Created table ${definition.name}`);
+    } else {
+      const present = new Set(existing.map(column => column.name));
+      for (const name of storedColumns(definition).filter(name => !present.has(name))) {
+        await db.execAsync(`ALTER TABLE ${definition.name} ADD COLUMN ${columnSql(definition, name, true)};`);
+        console.log(`🧱 Added column ${definition.name}.${name}`);
+      }
+    }
+
+    await db.execAsync(indexSql(definition).join('\n'));
+    await backfillNormalized(db, definition);
+    await applyFullText(db, definition);
+  }
+
+  await db.execAsync(referenceTriggerSql(definitions).join('\n'));
+};
@@ -0,0 +1,159 @@
+// lib/localDb/studentDuplicates.ts
+import { getDb } from './index';
+import { studentsRepository, Student } from './studentsRepository';
+import { normalizeArabic } from '@/lib/arabic';
+
+export interface DuplicateCandidate {
+  first: Student;
+  second: Student;
+  // 0..1; pairs below MIN_SCORE are not suggested
+  score: number;
+  // Why the pair was suggested, for display
+  reasons: string[];
+}
+
+const MIN_SCORE = 0.8;
+// A matching birth date or phone makes a looser name match worth a look
+const BIRTH_DATE_WEIGHT = 0.1;
+const PHONE_WEIGHT = 0.1;
+
+// Insertions, deletions and substitutions needed to turn one string into the other
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const wordSimilarity = (a: string, b: string): number =>
+  1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+
+/**
+ * How alike two names are, 0..1. First names are compared with each other; every other word of
+ * the shorter name is paired with its closest word in the longer one, so a missing father's name
+ * costs little and a typo costs about as much as the letters it changed.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const wordsA = normalizeArabic(a).split(' ').filter(Boolean);
+  const wordsB = normalizeArabic(b).split(' ').filter(Boolean);
+  if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+  const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+  const remaining = longer.slice(1);
+  let total = wordSimilarity(shorter[0], longer[0]);
+  for (const word of shorter.slice(1)) {
+    let best = 0;
+    let bestIndex = -1;
+    remaining.forEach((candidate, index) => {
+      const similarity = wordSimilarity(word, candidate);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) remaining.splice(bestIndex, 1);
+    total += best;
+  }
+
+  // Each word only one side has takes off a little
+  const missing = longer.length - shorter.length;
+  return (total / shorter.length) * Math.pow(0.95, missing);
+};
+
+// Digits only, whatever keyboard they were typed on
+const normalizePhone = (phone: string | null | undefined): string | null => {
+  const digits = normalizeArabic(phone ?? '').replace(/\D/g, '');
+  return digits.length >= 6 ? digits : null;
+};
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+const scorePair = (first: Student, second: Student): DuplicateCandidate | null => {
+  const similarity = nameSimilarity(first.name, second.name);
+  let score = similarity;
+  const reasons = [`تشابه الاسم ${Math.round(similarity * 100)}%`];
+
+  if (first.birth_date && second.birth_date) {
+    if (first.birth_date === second.birth_date) {
+      score += BIRTH_DATE_WEIGHT;
+      reasons.push('نفس تاريخ الميلاد');
+    } else {
+      score -= BIRTH_DATE_WEIGHT;
+      reasons.push('تاريخ الميلاد مختلف');
+    }
+  }
+
+  const firstPhone = normalizePhone(first.phone);
+  if (firstPhone && firstPhone === normalizePhone(second.phone)) {
+    score += PHONE_WEIGHT;
+    reasons.push('نفس رقم الهاتف');
+  }
+
+  score = Math.min(score, 1);
+  return score >= MIN_SCORE ? { first, second, score, reasons } : null;
+};
+
+/**
+ * Likely duplicate students, best candidates first. Only students sharing the start of the
+ * first name, a birth date or a phone number are compared, which keeps the scan well below
+ * comparing every pair. Pairs an admin dismissed are left out.
+ */
+export const findDuplicateStudents = async (): Promise<DuplicateCandidate[]> => {
+  const students = await studentsRepository.getAll();
+  const dismissed = new Set(
+    (await getDb().getAllAsync<{ first_uuid: string; second_uuid: string }>(
+      `SELECT first_uuid, second_uuid FROM duplicate_dismissals WHERE entity = 'students'`
+    )).map(row => pairKey(row.first_uuid, row.second_uuid))
+  );
+
+  const blocks = new Map<string, Student[]>();
+  const addToBlock = (key: string, student: Student) => {
+    const block = blocks.get(key);
+    if (block) block.push(student);
+    else blocks.set(key, [student]);
+  };
+  for (const student of students) {
+    addToBlock(`name:${normalizeArabic(student.name).slice(0, 2)}`, student);
+    if (student.birth_date) addToBlock(`birth:${student.birth_date}`, student);
+    const phone = normalizePhone(student.phone);
+    if (phone) addToBlock(`phone:${phone}`, student);
+  }
+
+  const seen = new Set<string>();
+  const candidates: DuplicateCandidate[] = [];
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const key = pairKey(block[i].uuid, block[j].uuid);
+        if (seen.has(key) || dismissed.has(key)) continue;
+        seen.add(key);
+
+        // The older record comes first; it is the one usually kept
+        const [first, second] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]];
+        const candidate = scorePair(first, second);
+        if (candidate) candidates.push(candidate);
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+};
+
+export const dismissDuplicate = async (first: Student, second: Student): Promise<void> => {
+  const [a, b] = first.uuid < second.uuid ? [first.uuid, second.uuid] : [second.uuid, first.uuid];
+  await getDb().runAsync(
+    `INSERT OR IGNORE INTO duplicate_dismissals (entity, first_uuid, second_uuid) VALUES ('students', ?, ?)`,
+    [a, b]
+  );
+};
+
+// Keep one student with the chosen values and soft-delete the other; both changes are queued for sync
+export const mergeStudents = async (keep: Student, remove: Student, values: Partial<Student>): Promise<void> => {
+  await studentsRepository.merge(keep.id, remove.id, values);
+};
@@ -0,0 +1,92 @@
+// lib/localDb/syncErrors.ts
+
+export type SyncErrorKind =
+  | 'network'
+  | 'dependency'
+  | 'auth'
+  | 'unique_violation'
+  | 'foreign_key_violation'
+  | 'rls_denied'
+  | 'validation'
+  | 'server'
+  | 'unknown';
+
+// How the sync manager should react to a failed push
+export type SyncErrorStrategy = 'backoff' | 'refresh_auth' | 'dead_letter';
+
+export interface ClassifiedSyncError {
+  kind: SyncErrorKind;
+  strategy: SyncErrorStrategy;
+  code: string | null;
+  message: string;
+}
+
+const STRATEGIES: Record<SyncErrorKind, SyncErrorStrategy> = {
+  network: 'backoff',
+  dependency: 'backoff',
+  server: 'backoff',
+  unknown: 'backoff',
+  auth: 'refresh_auth',
+  unique_violation: 'dead_letter',
+  foreign_key_violation: 'dead_letter',
+  rls_denied: 'dead_letter',
+  validation: 'dead_letter',
+};
+
+// Postgres SQLSTATE codes that retrying the same payload can never fix
+const VALIDATION_CODES = ['23502', '23514', '22001', '22003', '22007', '22008', '22P02', '42703', 'PGRST204'];
+
+const kindOf = (error: any): SyncErrorKind => {
+  const code = String(error?.code ?? '');
+  const status = Number(error?.status ?? 0);
+  const message = String(error?.message ?? '').toLowerCase();
+
+  // A parent record has not reached the server yet
+  if (code === 'DEPENDENCY_PENDING') return 'dependency';
+  if (code === '23505') return 'unique_violation';
+  if (code === '23503') return 'foreign_key_violation';
+  if (code === '42501' || message.includes('row-level security')) return 'rls_denied';
+  if (VALIDATION_CODES.includes(code)) return 'validation';
+
+  if (
+    code === 'PGRST301' ||
+    code === 'PGRST303' ||
+    status === 401 ||
+    message.includes('jwt expired') ||
+    message.includes('invalid jwt')
+  ) {
+    return 'auth';
+  }
+
+  if (
+    message.includes('network request failed') ||
+    message.includes('failed to fetch') ||
+    message.includes('timeout') ||
+    message.includes('timed out') ||
+    status === 408 ||
+    status === 429
+  ) {
+    return 'network';
+  }
+
+  // PGRST000-PGRST003 are PostgREST's "database unavailable" family
+  if (status >= 500 || /^PGRST00\d$/.test(code)) return 'server';
+
+  return 'unknown';
+};
+
+export const classifySyncError = (error: any): ClassifiedSyncError => {
+  const kind = kindOf(error);
+  return {
+    kind,
+    strategy: STRATEGIES[kind],
+    code: error?.code ? String(error.code) : null,
+    message: error?.message || String(error),
+  };
+};
+
+// Exponential backoff with "equal jitter": half the delay is fixed, half is random
+export const getBackoffDelay = (attempt: number, baseDelay: number, maxDelay: number): number => {
+  const exponential = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
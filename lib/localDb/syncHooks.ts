@@ -0,0 +1,43 @@
+// lib/localDb/syncHooks.ts
+import type { ClassifiedSyncError } from './syncErrors';
+
+// 'discard' drops the change and reverts the local record; 'default' lets the usual retry/dead-letter handling run
+export type PushErrorDecision = 'discard' | 'default';
+
+export interface PushFailure {
+  entity: string;
+  operation: 'INSERT' | 'UPDATE' | 'DELETE';
+  uuid: string;
+  payload: Record<string, any>;
+  error: ClassifiedSyncError;
+}
+
+// Per-entity special cases plugged into the one sync path instead of living in screens
+export interface SyncHooks {
+  onPushError?: (failure: PushFailure) => Promise<PushErrorDecision>;
+}
+
+const registry = new Map<string, Set<SyncHooks>>();
+
+// Returns an unregister function
+export const registerSyncHooks = (entity: string, hooks: SyncHooks): (() => void) => {
+  let entityHooks = registry.get(entity);
+  if (!entityHooks) {
+    entityHooks = new Set();
+    registry.set(entity, entityHooks);
+  }
+  entityHooks.add(hooks);
+  return () => {
+    entityHooks.delete(hooks);
+  };
+};
+
+// The first hook with an opinion wins
+export const runPushErrorHooks = async (failure: PushFailure): Promise<PushErrorDecision> => {
+  for (const hooks of registry.get(failure.entity) ?? []) {
+    if (!hooks.onPushError) continue;
+    const decision = await hooks.onPushError(failure);
+    if (decision !== 'default') return decision;
+  }
+  return 'default';
+};
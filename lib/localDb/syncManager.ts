@@ -1,21 +1,71 @@
 // lib/localDb/syncManager.ts
 import { supabase } from '@/lib/supabase';
 import { getDb } from './index';
+import { getSyncState, saveSyncState, getSyncBase, saveSyncBase, clearSyncBase } from './syncState';
+import { CONFLICT_FIELDS, getConflictPolicy, isRemoteChangedSince, isSameContent, markConflictResolved, recordConflict, recordDuplicateConflict, resolveConflict, ConflictResolution, SyncConflict } from './conflicts';
+import { classifySyncError, getBackoffDelay } from './syncErrors';
+import { enqueueChange, setPushInProgress } from './syncQueue';
+import { ENTITY_REFERENCES, PendingDependencyError, SYNC_ORDER, compareSyncOrder, resolveOutgoingReferences } from './dependencies';
+import { RealtimeSubscription, RealtimeChannelFactory, supabaseChannelFactory } from './realtime';
+import { syncEvents, EntityChangeEvent } from './events';
+import { runPushErrorHooks } from './syncHooks';
+import { discardDeadLetter } from './deadLetters';
+import { AuditEntry, auditedWrite, getUnsyncedAuditEntries, markAuditEntriesSynced } from './auditLog';
+import { getAllowedOfficeIds, officeRemoteColumn, refreshOfficeAccess } from './officeAccess';
+import { hasPermission } from './permissions';
+import { refreshCapabilities } from '@/lib/capabilities';
+import { getCurrentUserId } from '@/lib/localProfile';
+import { getEntity, getEntityByRemoteTable } from './entities';
+import { RelationDefinition, RemoteRowCollisionError, insertRemoteRow, refreshNormalized, toSyncPayload, updateRowFromRemote } from './schema';
 import NetInfo from '@react-native-community/netinfo';
 
 export interface SyncResult {
   success: boolean;
   synced: number;
   failed: number;
+  conflicts: number;
   errors: string[];
 }
 
+// 'deferred' leaves the queue entry in place, e.g. while a conflict awaits review
+type PushOutcome = 'done' | 'deferred';
+
+// An expired session is refreshed at most once per sync run
+interface AuthRetryState {
+  refreshed: boolean;
+}
+
+// Parents go first so children can be sent with their parents' server ids. Purges go last and
+// children first, so no server row is removed while another still points at it.
+const comparePushOrder = (a: any, b: any): number => {
+  const aPurge = a.operation === 'PURGE';
+  const bPurge = b.operation === 'PURGE';
+  if (aPurge !== bPurge) return aPurge ? 1 : -1;
+  const order = aPurge ? compareSyncOrder(b.entity, a.entity) : compareSyncOrder(a.entity, b.entity);
+  return order || a.timestamp - b.timestamp || a.id - b.id;
+};
+
 export class SyncManager {
   private static instance: SyncManager;
   private isOnline = false;
   private syncInProgress = false;
   private maxRetries = 3;
   private retryDelay = 1000; // 1 second
+  private maxRetryDelay = 5 * 60 * 1000; // 5 minutes
+  private pullPageSize = 500;
+  private pullOverlap = 2 * 60 * 1000; // 2 minutes re-read below the watermark
+  private pushBatchSize = 100;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollInterval = 30 * 1000; // 30 seconds, while realtime is down
+  // While it is up too: a subscribed channel still hears nothing of tables missing from the publication
+  private slowPollInterval = 5 * 60 * 1000;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private pollTimerInterval = 0;
+  private realtime: RealtimeSubscription | null = null;
+  // Screens currently showing live data; the channel closes when the last one lets go
+  private realtimeUsers = 0;
+  private realtimeChain: Promise<void> = Promise.resolve();
+  private realtimeBacklog: { entity: string; row: any }[] = [];
 
   private constructor() {
     this.initNetworkListener();
@@ -32,6 +82,10 @@ export class SyncManager {
     NetInfo.addEventListener(state => {
       const wasOffline = !this.isOnline;
       this.isOnline = state.isConnected ?? false;
+      if (wasOffline === this.isOnline) {
+        // Connectivity actually flipped
+        syncEvents.emit('connectivity', { isConnected: this.isOnline });
+      }
       
       if (wasOffline && this.isOnline) {
         console.log('📶 Network restored, triggering sync...');
@@ -43,30 +97,57 @@ export class SyncManager {
   async syncAll(): Promise<SyncResult> {
     if (this.syncInProgress) {
       console.log('⏳ Sync already in progress, skipping...');
-      return { success: false, synced: 0, failed: 0, errors: ['Sync already in progress'] };
+      return { success: false, synced: 0, failed: 0, conflicts: 0, errors: ['Sync already in progress'] };
     }
 
     if (!this.isOnline) {
       console.log('📵 Offline, skipping sync...');
-      return { success: false, synced: 0, failed: 0, errors: ['Device is offline'] };
+      return { success: false, synced: 0, failed: 0, conflicts: 0, errors: ['Device is offline'] };
     }
 
     this.syncInProgress = true;
-    const result: SyncResult = { success: true, synced: 0, failed: 0, errors: [] };
+    const result: SyncResult = { success: true, synced: 0, failed: 0, conflicts: 0, errors: [] };
+    syncEvents.emit('syncStart', { startedAt: new Date() });
 
     try {
+      // Let realtime rows already being merged finish; new ones wait for the sync to end
+      await this.realtimeChain;
+
       const db = getDb();
-      const changes = await db.getAllAsync(`
-        SELECT * FROM sync_queue 
-        WHERE retry_count < ? 
-        ORDER BY timestamp ASC
-      `, [this.maxRetries]);
+      // Entries still backing off and records with a conflict awaiting review are held back
+      const changes = await db.getAllAsync<any>(`
+        SELECT * FROM sync_queue q
+        WHERE q.status = 'pending'
+          AND (q.next_attempt_at IS NULL OR q.next_attempt_at <= ?)
+          AND NOT EXISTS (
+            SELECT 1 FROM sync_conflicts c
+            WHERE c.entity = q.entity AND c.entity_uuid = q.entity_uuid AND c.status = 'pending'
+          )
+        ORDER BY q.timestamp ASC
+      `, [new Date().toISOString()]);
+      changes.sort(comparePushOrder);
 
       console.log(`🔄 Starting sync for ${changes.length} changes...`);
+      const auth: AuthRetryState = { refreshed: false };
+      setPushInProgress(true);
+
+      const pushedInBulk = await this.pushBatches(changes, result, auth);
 
       for (const change of changes) {
+        if (pushedInBulk.has(change.id)) {
+          syncEvents.emit('pushed', { entity: change.entity, uuid: change.entity_uuid });
+          continue;
+        }
         try {
-          await this.syncChange(change);
+          const outcome = await this.withAuthRetry(() => this.syncChange(change), auth);
+          // Either way the local row may have changed (sync flags, or a resolved conflict)
+          syncEvents.emit('pushed', { entity: change.entity, uuid: change.entity_uuid });
+
+          if (outcome === 'deferred') {
+            result.conflicts++;
+            console.warn(`⚠️ ${change.entity} ${change.entity_uuid} has a conflict awaiting review`);
+            continue;
+          }
           await this.clearSyncChange(change.id);
           result.synced++;
           console.log(`✅ Synced ${change.entity} ${change.operation}`);
@@ -78,80 +159,467 @@ export class SyncManager {
         }
       }
 
+      setPushInProgress(false);
+
+      // History is uploaded on its own; a failure here must not hold back the data
+      try {
+        await this.pushAuditLog(auth);
+      } catch (error: any) {
+        console.error('❌ Failed to push audit log:', error.message);
+      }
+
       // Fetch remote changes after pushing local changes
-      await this.fetchRemoteChanges();
+      result.conflicts += await this.fetchRemoteChanges();
       
       result.success = result.failed === 0;
-      console.log(`🎯 Sync completed: ${result.synced} synced, ${result.failed} failed`);
+      console.log(`🎯 Sync completed: ${result.synced} synced, ${result.failed} failed, ${result.conflicts} awaiting review`);
       
     } catch (error: any) {
       result.success = false;
       result.errors.push(error.message);
       console.error('❌ Sync process failed:', error);
     } finally {
+      setPushInProgress(false);
       this.syncInProgress = false;
+      this.drainRealtimeBacklog();
+      syncEvents.emit('syncEnd', result);
+      syncEvents.emit('queueChanged', {});
+      await this.scheduleRetry().catch(console.error);
     }
 
     return result;
   }
 
-  private async syncChange(change: any): Promise<void> {
-    const payload = JSON.parse(change.payload);
-    
+  // Live updates from Supabase Realtime; the server is polled often while the channel is down, rarely while up
+  startRealtime(createChannel: RealtimeChannelFactory = supabaseChannelFactory): void {
+    this.realtimeUsers++;
+    if (this.realtime) return;
+
+    this.realtime = new RealtimeSubscription({
+      tables: SYNC_ORDER.map(entity => getEntity(entity).remoteTable),
+      createChannel,
+      onRow: (table, row) => {
+        const entity = getEntityByRemoteTable(table);
+        if (entity) this.enqueueRealtimeRow(entity.name, row);
+      },
+      onStatusChange: connected => this.handleRealtimeStatus(connected),
+    });
+    this.startPolling();
+    this.realtime.start();
+  }
+
+  // Pairs with startRealtime
+  async releaseRealtime(): Promise<void> {
+    this.realtimeUsers = Math.max(0, this.realtimeUsers - 1);
+    if (this.realtimeUsers === 0) await this.stopRealtime();
+  }
+
+  // On sign-out, whoever still holds it: the channel belongs to the old session
+  async stopRealtime(): Promise<void> {
+    this.realtimeUsers = 0;
+    const realtime = this.realtime;
+    this.realtime = null;
+    this.stopPolling();
+    await realtime?.stop();
+  }
+
+  private emitRemoteChange(entity: string, remoteItem: any, localItem: any | undefined): void {
+    const operation = remoteItem.deleted_at ? 'DELETE' : localItem ? 'UPDATE' : 'INSERT';
+    syncEvents.emit('change', { entity, operation, uuid: remoteItem.uuid, origin: 'remote' });
+  }
+
+  private handleRealtimeStatus(connected: boolean): void {
+    if (connected) {
+      console.log('📡 Realtime connected');
+      this.startPolling(this.slowPollInterval);
+      // Catch up on whatever changed while the channel was down
+      this.pullRemoteChanges().catch(console.error);
+    } else if (this.realtime) {
+      console.warn('📡 Realtime disconnected, falling back to polling');
+      this.startPolling();
+    }
+  }
+
+  private startPolling(interval = this.pollInterval): void {
+    if (this.pollTimer && this.pollTimerInterval === interval) return;
+    this.stopPolling();
+    this.pollTimerInterval = interval;
+    this.pollTimer = setInterval(() => {
+      this.pullRemoteChanges().catch(console.error);
+    }, interval);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  // Pull only; pushing stays with syncAll and its triggers
+  async pullRemoteChanges(): Promise<void> {
+    if (!this.isOnline || this.syncInProgress) return;
+
+    this.syncInProgress = true;
+    try {
+      await this.realtimeChain;
+      const conflicts = await this.fetchRemoteChanges();
+      if (conflicts > 0) {
+        console.warn(`⚠️ ${conflicts} pulled records have a conflict awaiting review`);
+      }
+    } finally {
+      this.syncInProgress = false;
+      this.drainRealtimeBacklog();
+    }
+  }
+
+  // Realtime rows are merged one at a time, and never while a sync is touching the same tables
+  private enqueueRealtimeRow(entity: string, row: any): void {
+    if (this.syncInProgress) {
+      this.realtimeBacklog.push({ entity, row });
+      return;
+    }
+    this.realtimeChain = this.realtimeChain
+      .then(() => this.mergeRealtimeRow(entity, row))
+      .catch(error => console.error(`❌ Failed to merge realtime ${entity} change:`, error));
+  }
+
+  private drainRealtimeBacklog(): void {
+    const backlog = this.realtimeBacklog;
+    this.realtimeBacklog = [];
+    backlog.forEach(({ entity, row }) => this.enqueueRealtimeRow(entity, row));
+  }
+
+  // Same merge as the pull path; the watermark is left to the pull, which re-reads these rows harmlessly
+  private async mergeRealtimeRow(entity: string, row: any): Promise<void> {
+    const db = getDb();
+    // Rows of other offices are not pulled either
+    const officeColumn = officeRemoteColumn(getEntity(entity));
+    const allowedOfficeIds = officeColumn ? await getAllowedOfficeIds() : null;
+    if (officeColumn && allowedOfficeIds && !allowedOfficeIds.includes(row[officeColumn])) return;
+
+    const localItem = await db.getFirstAsync<any>(`SELECT * FROM ${entity} WHERE uuid = ?`, [row.uuid]);
+
+    let merged = true;
+    await db.withTransactionAsync(async () => {
+      merged = await this.mergeRemoteItem(entity, row, localItem ?? undefined);
+    });
+
+    if (!merged) {
+      console.warn(`⚠️ Realtime ${entity} ${row.uuid} conflicts with a local edit`);
+      syncEvents.emit('queueChanged', { entity });
+    }
+    this.emitRemoteChange(entity, row, localItem ?? undefined);
+  }
+
+  private async withAuthRetry<T>(run: () => Promise<T>, auth: AuthRetryState): Promise<T> {
+    try {
+      return await run();
+    } catch (error: any) {
+      // An expired session fails every request: refresh once per run, then retry
+      if (auth.refreshed || classifySyncError(error).strategy !== 'refresh_auth') throw error;
+      auth.refreshed = true;
+      const { error: refreshError } = await supabase.auth.refreshSession();
+      if (refreshError) throw error;
+      console.log('🔑 Session refreshed, retrying...');
+      return await run();
+    }
+  }
+
+  // Push the first queued change of every record in bulk, one request per entity/operation chunk.
+  // UPDATE/DELETE go through apply_versioned_changes, which writes each row only at its base version.
+  // Anything a batch can't settle (a moved-on row, a rejected batch) is left to the one-by-one path,
+  // where conflicts are resolved and per-row failures get recorded.
+  private async pushBatches(changes: any[], result: SyncResult, auth: AuthRetryState): Promise<Set<number>> {
+    const pushed = new Set<number>();
+    const seen = new Set<string>();
+    const groups = new Map<string, any[]>();
+
+    for (const change of changes) {
+      const recordKey = `${change.entity}:${change.entity_uuid}`;
+      if (seen.has(recordKey)) continue;
+      seen.add(recordKey);
+
+      const groupKey = `${change.entity}:${change.operation}`;
+      groups.set(groupKey, [...(groups.get(groupKey) ?? []), change]);
+    }
+
+    for (const group of groups.values()) {
+      const { entity, operation } = group[0];
+      if (group.length < 2) continue;
+
+      for (let i = 0; i < group.length; i += this.pushBatchSize) {
+        const chunk = group.slice(i, i + this.pushBatchSize);
+        try {
+          const done = await this.withAuthRetry(() => {
+            if (operation === 'INSERT') return this.pushInsertBatch(entity, chunk);
+            if (operation === 'PURGE') return this.pushPurgeBatch(entity, chunk);
+            return this.pushVersionedBatch(entity, operation, chunk);
+          }, auth);
+          done.forEach(id => pushed.add(id));
+          result.synced += done.length;
+          console.log(`📦 Pushed ${done.length}/${chunk.length} ${entity} ${operation} in bulk`);
+        } catch (error: any) {
+          console.warn(`⚠️ Bulk push of ${entity} ${operation} failed, falling back to one by one:`, error.message);
+        }
+      }
+    }
+
+    return pushed;
+  }
+
+  // Upserting on uuid keeps a retried batch from duplicating rows whose earlier response was lost
+  private async pushInsertBatch(entity: string, chunk: any[]): Promise<number[]> {
+    const rows: any[] = [];
+    for (const change of chunk) {
+      const row = await this.toOutgoingRow(entity, JSON.parse(change.payload));
+      if (row) rows.push(row);
+    }
+    if (rows.length === 0) return [];
+
+    const { data, error } = await this.remoteTable(entity)
+      .upsert(rows, { onConflict: 'uuid', defaultToNull: false })
+      .select();
+
+    if (error) throw error;
+
+    const serverRows = new Map<string, any>((data || []).map((row: any) => [row.uuid, row]));
+    const done: number[] = [];
+    const db = getDb();
+    await db.withTransactionAsync(async () => {
+      for (const change of chunk) {
+        const serverRow = serverRows.get(change.entity_uuid);
+        if (!serverRow) continue;
+        await this.recordServerId(entity, change.entity_uuid, serverRow.id);
+        await this.markPushed(entity, change, serverRow);
+        await this.clearSyncChange(change.id);
+        done.push(change.id);
+      }
+    });
+    return done;
+  }
+
+  // The local rows are already gone; a row missing on the server counts as purged too
+  private async pushPurgeBatch(entity: string, chunk: any[]): Promise<number[]> {
+    const ids = chunk.map(change => change.entity_supabase_id).filter(Boolean);
+    if (ids.length > 0) {
+      const { error } = await this.remoteTable(entity).delete().in('id', ids);
+      if (error) throw error;
+    }
+
+    const db = getDb();
+    await db.withTransactionAsync(async () => {
+      for (const change of chunk) {
+        await clearSyncBase(entity, change.entity_uuid);
+        await this.clearSyncChange(change.id);
+      }
+    });
+    return chunk.map(change => change.id);
+  }
+
+  // Same conditions as handleUpdate/handleDelete, applied server-side in one call
+  private async pushVersionedBatch(entity: string, operation: 'UPDATE' | 'DELETE', chunk: any[]): Promise<number[]> {
+    const changes: any[] = [];
+    const queued = new Map<number, any>();
+    for (const change of chunk) {
+      // Entries without a server id yet are looked up (or settled locally) one by one
+      if (!change.entity_supabase_id) continue;
+
+      const payload = JSON.parse(change.payload);
+      const values = operation === 'UPDATE'
+        ? await this.toOutgoingRow(entity, payload)
+        : { deleted_at: new Date().toISOString(), deleted_by: payload.deleted_by ?? null, is_synced: true };
+      if (!values) continue;
+
+      const base = await getSyncBase(entity, change.entity_uuid);
+      changes.push({
+        id: change.entity_supabase_id,
+        base_updated_at: base?.updated_at ?? null,
+        live_only: operation === 'UPDATE' && !base?.updated_at,
+        values,
+      });
+      queued.set(change.entity_supabase_id, change);
+    }
+    if (changes.length === 0) return [];
+
+    const { data, error } = await supabase.rpc('apply_versioned_changes', {
+      target_table: getEntity(entity).remoteTable,
+      changes,
+    });
+    if (error) throw error;
+
+    const done: number[] = [];
+    const db = getDb();
+    await db.withTransactionAsync(async () => {
+      for (const serverRow of (data as any[]) || []) {
+        const change = queued.get(serverRow.id);
+        if (!change) continue;
+        await this.markPushed(entity, change, serverRow);
+        await this.clearSyncChange(change.id);
+        done.push(change.id);
+      }
+    });
+    return done;
+  }
+
+  // Entries are only ever added, so they are uploaded as they are; sending one twice changes nothing.
+  // Other users' entries wait for them to sign in here again.
+  private async pushAuditLog(auth: AuthRetryState): Promise<void> {
+    const actor = await getCurrentUserId();
+    if (!actor) return;
+
+    while (true) {
+      const entries = await getUnsyncedAuditEntries(actor, this.pushBatchSize);
+      if (entries.length === 0) return;
+
+      try {
+        await this.withAuthRetry(() => this.uploadAuditEntries(entries), auth);
+      } catch (error) {
+        if (classifySyncError(error).kind !== 'rls_denied') throw error;
+        // One refused entry (a record no longer in this user's offices) must not hold back the rest
+        for (const entry of entries) {
+          await this.uploadAuditEntries([entry]).catch(entryError => {
+            if (classifySyncError(entryError).kind !== 'rls_denied') throw entryError;
+            console.warn(`⚠️ Server refused audit entry ${entry.uuid} for ${entry.entity} ${entry.entity_uuid}, dropping it`);
+          });
+        }
+      }
+      await markAuditEntriesSynced(entries.map(entry => entry.id));
+      console.log(`📜 Pushed ${entries.length} audit log entries`);
+
+      if (entries.length < this.pushBatchSize) return;
+    }
+  }
+
+  private async uploadAuditEntries(entries: AuditEntry[]): Promise<void> {
+    const rows = entries.map(({ id, is_synced, ...entry }) => entry);
+    const { error } = await supabase
+      .from('audit_log')
+      .upsert(rows, { onConflict: 'uuid', ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  // Entities may live under a different table name on the server
+  private remoteTable(entity: string) {
+    return supabase.from(getEntity(entity).remoteTable);
+  }
+
+  // Rows whose parents haven't reached the server yet stay out of the batch
+  private async toOutgoingRow(entity: string, values: any): Promise<any | null> {
+    try {
+      const payload = toSyncPayload(getEntity(entity), values);
+      return { ...(await resolveOutgoingReferences(entity, payload)), is_synced: true };
+    } catch (error) {
+      if (error instanceof PendingDependencyError) return null;
+      throw error;
+    }
+  }
+
+  // Wake up when the earliest backed-off entry becomes eligible again
+  private async scheduleRetry(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const db = getDb();
+    const next = await db.getFirstAsync<{ next_attempt_at: string | null }>(
+      `SELECT MIN(next_attempt_at) as next_attempt_at FROM sync_queue WHERE status = 'pending' AND next_attempt_at IS NOT NULL`
+    );
+    if (!next?.next_attempt_at) return;
+
+    const delay = Math.max(0, new Date(next.next_attempt_at).getTime() - Date.now());
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.isOnline) this.syncAll().catch(console.error);
+    }, delay);
+  }
+
+  private async syncChange(change: any, allowConflictRetry = true): Promise<PushOutcome> {
+    // Only declared columns go out, whatever older queue entries may carry
+    const payload = await resolveOutgoingReferences(
+      change.entity,
+      toSyncPayload(getEntity(change.entity), JSON.parse(change.payload))
+    );
+
+    // Entries queued before their INSERT was pushed only learn the server id afterwards
+    if (change.operation !== 'INSERT' && !change.entity_supabase_id) {
+      const row = await getDb().getFirstAsync<{ supabase_id: number | null }>(
+        `SELECT supabase_id FROM ${change.entity} WHERE uuid = ?`,
+        [change.entity_uuid]
+      );
+      change = { ...change, entity_supabase_id: row?.supabase_id ?? null };
+    }
+    let outcome: PushOutcome | 'conflict';
+
     switch (change.operation) {
       case 'INSERT':
-        await this.handleInsert(change.entity, payload, change);
+        outcome = await this.handleInsert(change.entity, payload, change);
         break;
       case 'UPDATE':
-        await this.handleUpdate(change.entity, payload, change);
+        outcome = await this.handleUpdate(change.entity, payload, change);
         break;
       case 'DELETE':
-        await this.handleDelete(change.entity, change);
+        outcome = await this.handleDelete(change.entity, payload, change);
+        break;
+      case 'PURGE':
+        outcome = await this.handlePurge(change.entity, change);
         break;
       default:
         throw new Error(`Unknown operation: ${change.operation}`);
     }
+
+    if (outcome !== 'conflict') return outcome;
+
+    const resolution = await this.handlePushConflict(change);
+    if (resolution === 'remote') return 'done';
+    if (!resolution || !allowConflictRetry) return 'deferred';
+
+    // The base now points at the server version, so pushing the (possibly merged) local row again succeeds
+    const refreshed = await getDb().getFirstAsync<any>('SELECT * FROM sync_queue WHERE id = ?', [change.id]);
+    return refreshed ? await this.syncChange(refreshed, false) : 'done';
   }
 
-  private async handleInsert(entity: string, payload: any, change: any): Promise<void> {
-    const { data, error } = await supabase
-      .from(entity)
+  private async handleInsert(entity: string, payload: any, change: any): Promise<PushOutcome> {
+    const { data, error } = await this.remoteTable(entity)
       .insert([{ ...payload, is_synced: true }])
       .select()
       .single();
 
     if (error) throw error;
 
-    // Update local record with Supabase ID
-    const db = getDb();
-    await db.runAsync(
-      `UPDATE ${entity} SET supabase_id = ?, is_synced = 1, operation_type = NULL WHERE uuid = ?`,
-      [data.id, change.entity_uuid]
-    );
+    await this.recordServerId(entity, change.entity_uuid, data.id);
+    await this.markPushed(entity, change, data);
+    return 'done';
   }
 
-  private async handleUpdate(entity: string, payload: any, change: any): Promise<void> {
+  private async handleUpdate(entity: string, payload: any, change: any): Promise<PushOutcome | 'conflict'> {
     if (!change.entity_supabase_id) {
       throw new Error('Cannot update: missing Supabase ID');
     }
 
-    const { error } = await supabase
-      .from(entity)
+    const base = await getSyncBase(entity, change.entity_uuid);
+    let query = this.remoteTable(entity)
       .update({ ...payload, is_synced: true })
-      .eq('id', change.entity_supabase_id)
-      .is('deleted_at', null);
+      .eq('id', change.entity_supabase_id);
+
+    // Only overwrite the version this edit was based on; anything else is a concurrent change.
+    // A reviewed conflict may deliberately restore a remotely deleted row, so the base check replaces the deleted filter.
+    if (base?.updated_at) {
+      query = query.eq('updated_at', base.updated_at);
+    } else {
+      query = query.is('deleted_at', null);
+    }
 
+    const { data, error } = await query.select();
     if (error) throw error;
+    if (!data || data.length === 0) return 'conflict';
 
-    // Mark local record as synced
-    const db = getDb();
-    await db.runAsync(
-      `UPDATE ${entity} SET is_synced = 1, operation_type = NULL WHERE id = ?`,
-      [change.entity_local_id]
-    );
+    await this.markPushed(entity, change, data[0]);
+    return 'done';
   }
 
-  private async handleDelete(entity: string, change: any): Promise<void> {
+  private async handleDelete(entity: string, payload: any, change: any): Promise<PushOutcome | 'conflict'> {
     if (!change.entity_supabase_id) {
       // If no Supabase ID, just mark as synced locally
       const db = getDb();
@@ -159,29 +627,205 @@ export class SyncManager {
         `UPDATE ${entity} SET is_synced = 1, operation_type = NULL WHERE id = ?`,
         [change.entity_local_id]
       );
-      return;
+      return 'done';
     }
 
-    const { error } = await supabase
-      .from(entity)
-      .update({ deleted_at: new Date().toISOString(), is_synced: true })
+    const base = await getSyncBase(entity, change.entity_uuid);
+    let query = this.remoteTable(entity)
+      .update({ deleted_at: new Date().toISOString(), deleted_by: payload.deleted_by ?? null, is_synced: true })
       .eq('id', change.entity_supabase_id);
 
+    if (base?.updated_at) {
+      query = query.eq('updated_at', base.updated_at);
+    }
+
+    const { data, error } = await query.select();
     if (error) throw error;
+    if (!data || data.length === 0) return 'conflict';
+
+    await this.markPushed(entity, change, data[0]);
+    return 'done';
+  }
+
+  private async handlePurge(entity: string, change: any): Promise<PushOutcome> {
+    if (change.entity_supabase_id) {
+      const { error } = await this.remoteTable(entity).delete().eq('id', change.entity_supabase_id);
+      if (error) throw error;
+    }
+    await clearSyncBase(entity, change.entity_uuid);
+    return 'done';
+  }
+
+  // Update local record with Supabase ID, and the entries still queued behind its INSERT
+  private async recordServerId(entity: string, uuid: string, supabaseId: number): Promise<void> {
+    const db = getDb();
+    await db.runAsync(`UPDATE ${entity} SET supabase_id = ? WHERE uuid = ?`, [supabaseId, uuid]);
+    await db.runAsync(
+      'UPDATE sync_queue SET entity_supabase_id = ? WHERE entity = ? AND entity_uuid = ? AND entity_supabase_id IS NULL',
+      [supabaseId, entity, uuid]
+    );
+  }
 
-    // Mark local record as synced
+  // After a successful push: clean the local row, or re-base it if more edits are still queued
+  private async markPushed(entity: string, change: any, serverRow: any): Promise<void> {
     const db = getDb();
+    const remaining = await db.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) as count FROM sync_queue WHERE entity = ? AND entity_uuid = ? AND id != ?',
+      [entity, change.entity_uuid, change.id]
+    );
+
+    if (remaining?.count) {
+      await saveSyncBase(entity, change.entity_uuid, serverRow);
+      return;
+    }
+
+    // Adopt the server's updated_at so a clean row always carries the server version
     await db.runAsync(
-      `UPDATE ${entity} SET is_synced = 1, operation_type = NULL WHERE id = ?`,
-      [change.entity_local_id]
+      `UPDATE ${entity} SET is_synced = 1, operation_type = NULL, updated_at = ? WHERE uuid = ?`,
+      [serverRow.updated_at || new Date().toISOString(), change.entity_uuid]
     );
+    await clearSyncBase(entity, change.entity_uuid);
+  }
+
+  private async handlePushConflict(change: any): Promise<ConflictResolution | null> {
+    const { data: remoteItem, error } = await this.remoteTable(change.entity)
+      .select('*')
+      .eq('id', change.entity_supabase_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!remoteItem) throw new Error('Remote record not found');
+
+    const db = getDb();
+    const localItem = await db.getFirstAsync<any>(
+      `SELECT * FROM ${change.entity} WHERE uuid = ?`,
+      [change.entity_uuid]
+    );
+    if (!localItem) throw new Error('Local record not found');
+
+    let resolution: ConflictResolution | null = null;
+    await db.withTransactionAsync(async () => {
+      resolution = await this.resolveAndApply(change.entity, localItem, remoteItem);
+    });
+    return resolution;
+  }
+
+  // Decide a conflict with the entity's policy and apply the outcome locally. Must run inside a transaction.
+  private async resolveAndApply(entity: string, localItem: any, remoteItem: any): Promise<ConflictResolution | null> {
+    const db = getDb();
+    const base = await getSyncBase(entity, localItem.uuid);
+
+    // Both sides made the same change: nothing to resolve
+    if (isSameContent(entity, localItem, remoteItem)) {
+      await this.applyRemote(entity, remoteItem);
+      return 'remote';
+    }
+
+    const policy = getConflictPolicy(entity);
+    const outcome = resolveConflict(entity, localItem, remoteItem, base?.data ?? null, policy);
+    await recordConflict(entity, localItem, remoteItem, base?.data ?? null, policy, outcome);
+
+    switch (outcome.resolution) {
+      case 'remote':
+        await this.applyRemote(entity, remoteItem);
+        break;
+      case 'local':
+        await saveSyncBase(entity, localItem.uuid, remoteItem);
+        break;
+      case 'merged': {
+        const fields = CONFLICT_FIELDS[entity] ?? [];
+        await auditedWrite(entity, localItem.uuid, 'remote', async () => {
+          await db.runAsync(
+            `UPDATE ${entity} SET ${fields.map(f => `${f} = ?`).join(', ')} WHERE uuid = ?`,
+            [...fields.map(f => outcome.merged[f] ?? null), localItem.uuid]
+          );
+          await refreshNormalized(db, getEntity(entity), localItem.uuid);
+        });
+        // Queued UPDATEs must now carry the merged values rather than the stale local ones
+        const queued = await db.getAllAsync<any>(
+          `SELECT id, payload FROM sync_queue WHERE entity = ? AND entity_uuid = ? AND operation = 'UPDATE'`,
+          [entity, localItem.uuid]
+        );
+        for (const row of queued) {
+          await db.runAsync('UPDATE sync_queue SET payload = ? WHERE id = ?', [
+            JSON.stringify({ ...JSON.parse(row.payload), ...outcome.merged }),
+            row.id
+          ]);
+        }
+        await saveSyncBase(entity, localItem.uuid, remoteItem);
+        break;
+      }
+      default:
+        console.warn(`⚠️ Conflict on ${entity} ${localItem.uuid} needs manual review`);
+    }
+
+    return outcome.resolution;
   }
 
-  private async handleSyncError(change: any, error: Error): Promise<void> {
+  // Overwrite the local row with the server version and drop its pending local changes
+  private async applyRemote(entity: string, remoteItem: any): Promise<void> {
     const db = getDb();
+    await this.updateLocalFromRemote(entity, remoteItem);
+    await db.runAsync('DELETE FROM sync_queue WHERE entity = ? AND entity_uuid = ?', [entity, remoteItem.uuid]);
+    await clearSyncBase(entity, remoteItem.uuid);
+  }
+
+  private async handleSyncError(change: any, error: any): Promise<void> {
+    const db = getDb();
+    const classified = classifySyncError(error);
+    const retryCount = (change.retry_count || 0) + 1;
+    const lastError = classified.code ? `[${classified.code}] ${classified.message}` : classified.message;
+
+    if (change.entity_uuid) {
+      const decision = await runPushErrorHooks({
+        entity: change.entity,
+        operation: change.operation,
+        uuid: change.entity_uuid,
+        payload: JSON.parse(change.payload),
+        error: classified,
+      }).catch(hookError => {
+        console.error('Sync hook failed:', hookError);
+        return 'default' as const;
+      });
+
+      if (decision === 'discard') {
+        try {
+          // Same path as discarding from the failures screen, so the local record is reverted consistently
+          await db.runAsync(
+            `UPDATE sync_queue SET last_error = ?, error_kind = ?, status = 'dead', dead_at = ? WHERE id = ?`,
+            [lastError, classified.kind, new Date().toISOString(), change.id]
+          );
+          await discardDeadLetter(change.id);
+          console.log(`🗑️ ${change.entity} ${change.operation} discarded by sync hook`);
+        } catch (discardError: any) {
+          console.warn(`⚠️ Could not discard ${change.entity} ${change.operation}:`, discardError.message);
+        }
+        return;
+      }
+    }
+
+    // Permanent errors will fail the same way every time; transient ones are dead-lettered
+    // after maxRetries, except network errors and unsynced parents which only mean "try again later"
+    const isDead =
+      classified.strategy === 'dead_letter' ||
+      (classified.kind !== 'network' &&
+        classified.kind !== 'dependency' &&
+        classified.strategy !== 'refresh_auth' &&
+        retryCount >= this.maxRetries);
+
+    if (isDead) {
+      await db.runAsync(
+        `UPDATE sync_queue SET retry_count = ?, last_error = ?, error_kind = ?, status = 'dead', dead_at = ?, next_attempt_at = NULL WHERE id = ?`,
+        [retryCount, lastError, classified.kind, new Date().toISOString(), change.id]
+      );
+      console.warn(`☠️ ${change.entity} ${change.operation} moved to dead letters (${classified.kind}): ${classified.message}`);
+      return;
+    }
+
+    const delay = getBackoffDelay(retryCount - 1, this.retryDelay, this.maxRetryDelay);
     await db.runAsync(
-      `UPDATE sync_queue SET retry_count = retry_count + 1, last_error = ? WHERE id = ?`,
-      [error.message, change.id]
+      `UPDATE sync_queue SET retry_count = ?, last_error = ?, error_kind = ?, next_attempt_at = ? WHERE id = ?`,
+      [retryCount, lastError, classified.kind, new Date(Date.now() + delay).toISOString(), change.id]
     );
   }
 
@@ -190,140 +834,367 @@ export class SyncManager {
     await db.runAsync('DELETE FROM sync_queue WHERE id = ?', [changeId]);
   }
 
-  private async fetchRemoteChanges(): Promise<void> {
-    const entities = ['levels', 'offices', 'students'];
-    
-    for (const entity of entities) {
+  // Returns the number of conflicts left for manual review
+  private async fetchRemoteChanges(): Promise<number> {
+    let conflicts = 0;
+    let complete = true;
+
+    // Role and assignments may have changed since the last pull; offline, the cached ones still apply.
+    // The role decides whether assignments matter at all, so it goes first.
+    await refreshCapabilities().catch(error =>
+      console.error('Failed to refresh capabilities:', error.message)
+    );
+    await refreshOfficeAccess().catch(error =>
+      console.error('Failed to refresh office access:', error.message)
+    );
+
+    // Parents first, so pulled children can be linked to them right away
+    for (const entity of SYNC_ORDER) {
       try {
-        await this.fetchEntityChanges(entity);
+        conflicts += await this.fetchEntityChanges(entity);
       } catch (error: any) {
+        complete = false;
         console.error(`Failed to fetch ${entity} changes:`, error.message);
       }
     }
-  }
 
-  private async fetchEntityChanges(entity: string): Promise<void> {
-    const { data: remoteItems, error } = await supabase
-      .from(entity)
-      .select('*')
-      .order('updated_at', { ascending: true });
-
-    if (error) throw error;
+    // A partial pull may lack the children that were moved or deleted along with their parent
+    if (complete) {
+      await this.enforceDeletePolicies().catch(error =>
+        console.error('Failed to enforce delete policies:', error.message)
+      );
+    }
+    return conflicts;
+  }
 
+  /**
+   * Live rows whose parent was deleted on the server, e.g. a student added here offline to an office
+   * another device deleted. Each relation's onDelete decides: 'block' restores the parent, 'cascade'
+   * deletes the children. Both are queued, so the server ends up with the same outcome, when this
+   * user may make that write; otherwise they only apply here, since the server would refuse them.
+   * Realtime deletes are settled by the next pull.
+   */
+  private async enforceDeletePolicies(): Promise<void> {
     const db = getDb();
-    const localItems = await db.getAllAsync(`
-      SELECT * FROM ${entity} WHERE deleted_at IS NULL OR deleted_at = ''
-    `);
+    const changes: Omit<EntityChangeEvent, 'origin'>[] = [];
 
     await db.withTransactionAsync(async () => {
-      for (const remoteItem of remoteItems || []) {
-        const localItem = localItems.find((l: any) => l.uuid === remoteItem.uuid);
-
-        if (remoteItem.deleted_at) {
-          if (localItem && !localItem.deleted_at) {
-            await db.runAsync(
-              `UPDATE ${entity} SET deleted_at = ?, is_synced = 1, operation_type = NULL WHERE uuid = ?`,
-              [remoteItem.deleted_at, remoteItem.uuid]
-            );
-          }
-          continue;
-        }
-
-        if (!localItem) {
-          // Insert new remote item
-          await this.insertRemoteItem(entity, remoteItem);
-        } else {
-          // Check if remote is newer
-          const remoteTime = new Date(remoteItem.updated_at || remoteItem.created_at).getTime();
-          const localTime = new Date(localItem.updated_at || localItem.created_at).getTime();
+      for (const child of SYNC_ORDER) {
+        for (const ref of ENTITY_REFERENCES[child] ?? []) {
+          const orphans = await db.getAllAsync<any>(
+            `SELECT c.*, p.uuid AS parent_uuid, p.deleted_by AS parent_deleted_by
+             FROM ${child} c JOIN ${ref.parent} p ON p.uuid = c.${ref.uuidColumn}
+             WHERE (c.deleted_at IS NULL OR c.deleted_at = '')
+               AND p.deleted_at IS NOT NULL AND p.deleted_at != ''
+               AND p.is_synced = 1 AND p.supabase_id IS NOT NULL`
+          );
+          if (orphans.length === 0) continue;
 
-          if (remoteTime > localTime && localItem.is_synced) {
-            await this.updateLocalFromRemote(entity, remoteItem);
+          if ((ref.onDelete ?? 'block') === 'cascade') {
+            for (const orphan of orphans) {
+              const { parent_uuid, parent_deleted_by, ...row } = orphan;
+              await this.cascadeRemoteDelete(child, row, parent_deleted_by);
+              changes.push({ entity: child, operation: 'DELETE', uuid: row.uuid });
+            }
+            console.warn(`🔗 Deleted ${orphans.length} ${child} along with their deleted ${ref.parent}`);
+          } else {
+            const parents = [...new Set<string>(orphans.map(orphan => orphan.parent_uuid))];
+            for (const uuid of parents) {
+              await this.reviveRemoteDeleted(ref, uuid);
+              changes.push({ entity: ref.parent, operation: 'UPDATE', uuid });
+            }
+            console.warn(`🔗 Restored ${parents.length} ${ref.parent} still used by ${child} on this device`);
           }
         }
       }
     });
+
+    changes.forEach(change => syncEvents.emit('change', { ...change, origin: 'local' }));
+    if (changes.length > 0) syncEvents.emit('queueChanged', {});
   }
 
-  private async insertRemoteItem(entity: string, remoteItem: any): Promise<void> {
+  // Soft-delete a child of a parent deleted on the server, the same way a local delete would
+  private async cascadeRemoteDelete(entity: string, row: any, deletedBy: string | null): Promise<void> {
     const db = getDb();
-    
-    if (entity === 'students') {
-      await db.runAsync(`
-        INSERT OR IGNORE INTO students 
-        (uuid, name, birth_date, phone, address, office_id, level_id, supabase_id, is_synced, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)
-      `, [
-        remoteItem.uuid,
-        remoteItem.name,
-        remoteItem.birth_date,
-        remoteItem.phone,
-        remoteItem.address,
-        remoteItem.office_id,
-        remoteItem.level_id,
-        remoteItem.id,
-        remoteItem.created_at,
-        remoteItem.updated_at || remoteItem.created_at
-      ]);
-    } else {
-      await db.runAsync(`
-        INSERT OR IGNORE INTO ${entity} 
-        (uuid, name, supabase_id, is_synced, created_at, updated_at)
-        VALUES (?, ?, ?, 1, ?, ?)
-      `, [
-        remoteItem.uuid,
-        remoteItem.name,
-        remoteItem.id,
-        remoteItem.created_at,
-        remoteItem.updated_at || remoteItem.created_at
-      ]);
+    const now = new Date().toISOString();
+    if (!(await hasPermission(getEntity(entity), 'delete', row))) {
+      // Still marked synced, so a later server change to the row applies as usual
+      await auditedWrite(entity, row.uuid, 'local', () => db.runAsync(
+        `UPDATE ${entity} SET deleted_at = ?, deleted_by = ? WHERE id = ?`,
+        [now, deletedBy, row.id]
+      ));
+      return;
+    }
+
+    if (row.is_synced && row.supabase_id) {
+      await saveSyncBase(entity, row.uuid, row);
+    }
+    await auditedWrite(entity, row.uuid, 'local', () => db.runAsync(
+      `UPDATE ${entity} SET deleted_at = ?, deleted_by = ?, is_synced = 0, operation_type = 'DELETE', updated_at = ? WHERE id = ?`,
+      [now, deletedBy, now, row.id]
+    ));
+    await enqueueChange(entity, 'DELETE', row.id, row.uuid, row.supabase_id ?? null, {
+      deleted_at: now, deleted_by: deletedBy, uuid: row.uuid, updated_at: now
+    });
+  }
+
+  // Undo a server-side delete of a parent; the push only succeeds if nobody changed it since
+  private async reviveRemoteDeleted(ref: RelationDefinition, uuid: string): Promise<void> {
+    const db = getDb();
+    const now = new Date().toISOString();
+    const parent = await db.getFirstAsync<any>(`SELECT * FROM ${ref.parent} WHERE uuid = ?`, [uuid]);
+    if (!parent) return;
+
+    if (!(await hasPermission(getEntity(ref.parent), 'restore', { ...parent, deleted_at: null }))) {
+      await auditedWrite(ref.parent, uuid, 'local', () => db.runAsync(
+        `UPDATE ${ref.parent} SET deleted_at = NULL, deleted_by = NULL WHERE id = ?`,
+        [parent.id]
+      ));
+      return;
+    }
+
+    await saveSyncBase(ref.parent, uuid, parent);
+    await auditedWrite(ref.parent, uuid, 'local', () => db.runAsync(
+      `UPDATE ${ref.parent} SET deleted_at = NULL, deleted_by = NULL, is_synced = 0, operation_type = 'UPDATE', updated_at = ? WHERE id = ?`,
+      [now, parent.id]
+    ));
+    await enqueueChange(ref.parent, 'UPDATE', parent.id, uuid, parent.supabase_id, {
+      deleted_at: null, deleted_by: null, uuid, updated_at: now
+    });
+  }
+
+  private async fetchEntityChanges(entity: string): Promise<number> {
+    const db = getDb();
+    const state = await getSyncState(entity);
+    const officeColumn = officeRemoteColumn(getEntity(entity));
+    const allowedOfficeIds = officeColumn ? await getAllowedOfficeIds() : null;
+    if (allowedOfficeIds?.length === 0) return 0;
+
+    // A watermark taken for other offices would skip the older rows of newly assigned ones
+    const scope = allowedOfficeIds ? allowedOfficeIds.join(',') : null;
+    const sameScope = (state?.scope ?? null) === scope;
+    let lastUpdatedAt = sameScope ? state?.last_updated_at ?? null : null;
+    let lastRemoteId = sameScope ? state?.last_remote_id ?? null : null;
+    let pulled = 0;
+    let conflicts = 0;
+    let firstPage = true;
+
+    // Keyset paging on (updated_at, id) so each sync only downloads rows changed since the watermark
+    while (true) {
+      let query = this.remoteTable(entity)
+        .select('*')
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(this.pullPageSize);
+
+      if (officeColumn && allowedOfficeIds) {
+        query = query.in(officeColumn, allowedOfficeIds);
+      }
+      if (lastUpdatedAt && firstPage) {
+        // updated_at is stamped when a transaction starts, so one that commits late lands below a
+        // watermark taken meanwhile; re-read a margin under it, merging a row twice changes nothing
+        const overlapFrom = new Date(new Date(lastUpdatedAt).getTime() - this.pullOverlap).toISOString();
+        query = query.gte('updated_at', overlapFrom);
+      } else if (lastUpdatedAt) {
+        // Timestamps contain reserved PostgREST characters, so they must be quoted
+        query = query.or(
+          `updated_at.gt."${lastUpdatedAt}",and(updated_at.eq."${lastUpdatedAt}",id.gt.${lastRemoteId ?? 0})`
+        );
+      }
+
+      const { data: remoteItems, error } = await query;
+      if (error) throw error;
+      if (!remoteItems || remoteItems.length === 0) break;
+
+      const uuids = remoteItems.map((item: any) => item.uuid);
+      const localItems = await db.getAllAsync<any>(
+        `SELECT * FROM ${entity} WHERE uuid IN (${uuids.map(() => '?').join(', ')})`,
+        uuids
+      );
+      const localByUuid = new Map<string, any>(localItems.map(item => [item.uuid, item]));
+      const lastItem = remoteItems[remoteItems.length - 1];
+
+      await db.withTransactionAsync(async () => {
+        for (const remoteItem of remoteItems) {
+          const merged = await this.mergeRemoteItem(entity, remoteItem, localByUuid.get(remoteItem.uuid));
+          if (!merged) conflicts++;
+        }
+
+        await saveSyncState(entity, lastItem.updated_at, lastItem.id, scope);
+      });
+
+      const changed = remoteItems.filter((remoteItem: any) =>
+        !this.isAlreadyMerged(localByUuid.get(remoteItem.uuid), remoteItem)
+      );
+      changed.forEach((remoteItem: any) =>
+        this.emitRemoteChange(entity, remoteItem, localByUuid.get(remoteItem.uuid))
+      );
+
+      lastUpdatedAt = lastItem.updated_at;
+      lastRemoteId = lastItem.id;
+      pulled += changed.length;
+      firstPage = false;
+
+      if (remoteItems.length < this.pullPageSize) break;
+    }
+
+    if (pulled > 0) {
+      console.log(`⬇️ Pulled ${pulled} changed ${entity}`);
+    }
+    return conflicts;
+  }
+
+  // Rows re-read from the overlap window that this device already has at the same version
+  private isAlreadyMerged(localItem: any | undefined, remoteItem: any): boolean {
+    if (!localItem || !localItem.is_synced || !localItem.updated_at || !remoteItem.updated_at) return false;
+    return new Date(localItem.updated_at).getTime() === new Date(remoteItem.updated_at).getTime()
+      && !localItem.deleted_at === !remoteItem.deleted_at;
+  }
+
+  // Returns false when the row was left in conflict for manual review
+  private async mergeRemoteItem(entity: string, remoteItem: any, localItem: any | undefined): Promise<boolean> {
+    const db = getDb();
+
+    // Unsynced local edits: only a conflict if the server also changed since our base version
+    if (localItem && !localItem.is_synced) {
+      const base = await getSyncBase(entity, localItem.uuid);
+      if (base && !isRemoteChangedSince(base.updated_at, remoteItem)) return true;
+      return (await this.resolveAndApply(entity, localItem, remoteItem)) !== null;
+    }
+
+    if (remoteItem.deleted_at) {
+      if (localItem && !localItem.deleted_at) {
+        await auditedWrite(entity, remoteItem.uuid, 'remote', () => db.runAsync(
+          `UPDATE ${entity} SET deleted_at = ?, deleted_by = ?, updated_at = COALESCE(?, updated_at), is_synced = 1, operation_type = NULL WHERE uuid = ?`,
+          [remoteItem.deleted_at, remoteItem.deleted_by ?? null, remoteItem.updated_at ?? null, remoteItem.uuid]
+        ));
+      }
+      return true;
+    }
+
+    if (!localItem) {
+      try {
+        await this.insertRemoteItem(entity, remoteItem);
+      } catch (error) {
+        if (!(error instanceof RemoteRowCollisionError) || !error.existing) throw error;
+        // Left for an admin to merge or rename; the rest of the page, and the watermark, move on
+        await recordDuplicateConflict(entity, error.existing, remoteItem);
+        console.warn(`⚠️ ${entity} ${remoteItem.uuid} from the server duplicates local ${error.existing.uuid}, left for review`);
+        return false;
+      }
+      return true;
     }
+
+    // Check if remote is newer
+    const remoteTime = new Date(remoteItem.updated_at || remoteItem.created_at).getTime();
+    const localTime = new Date(localItem.updated_at || localItem.created_at).getTime();
+
+    if (remoteTime > localTime) {
+      await this.updateLocalFromRemote(entity, remoteItem);
+    }
+    return true;
+  }
+
+  private async insertRemoteItem(entity: string, remoteItem: any): Promise<void> {
+    await auditedWrite(entity, remoteItem.uuid, 'remote', () =>
+      insertRemoteRow(getDb(), getEntity(entity), remoteItem)
+    );
   }
 
   private async updateLocalFromRemote(entity: string, remoteItem: any): Promise<void> {
+    await auditedWrite(entity, remoteItem.uuid, 'remote', () =>
+      updateRowFromRemote(getDb(), getEntity(entity), remoteItem)
+    );
+  }
+
+  // Apply a reviewer's decision for a conflict that the policy left pending
+  async resolveConflictManually(
+    conflictId: number,
+    resolution: ConflictResolution,
+    values?: Record<string, any>
+  ): Promise<void> {
     const db = getDb();
-    
-    if (entity === 'students') {
-      await db.runAsync(`
-        UPDATE students SET 
-        name = ?, birth_date = ?, phone = ?, address = ?, 
-        office_id = ?, level_id = ?, updated_at = ?, is_synced = 1
-        WHERE uuid = ?
-      `, [
-        remoteItem.name,
-        remoteItem.birth_date,
-        remoteItem.phone,
-        remoteItem.address,
-        remoteItem.office_id,
-        remoteItem.level_id,
-        remoteItem.updated_at || remoteItem.created_at,
-        remoteItem.uuid
-      ]);
-    } else {
-      await db.runAsync(`
-        UPDATE ${entity} SET name = ?, updated_at = ?, is_synced = 1 WHERE uuid = ?
-      `, [
-        remoteItem.name,
-        remoteItem.updated_at || remoteItem.created_at,
-        remoteItem.uuid
-      ]);
+    const conflict = await db.getFirstAsync<SyncConflict>('SELECT * FROM sync_conflicts WHERE id = ?', [conflictId]);
+    if (!conflict || conflict.status !== 'pending') {
+      throw new Error('التعارض غير موجود أو تمت معالجته مسبقاً');
+    }
+    // Settled by the entity's repository, which moves or renames the local record
+    if (conflict.kind === 'duplicate') {
+      throw new Error('هذا تعارض سجلات مكررة، ويُعالج من خلال مستودع السجل');
+    }
+
+    const { entity, entity_uuid: uuid } = conflict;
+    const remoteItem = JSON.parse(conflict.remote_data);
+    const localItem = await db.getFirstAsync<any>(`SELECT * FROM ${entity} WHERE uuid = ?`, [uuid]);
+    if (!localItem) {
+      throw new Error('السجل المحلي غير موجود');
+    }
+
+    const fields = CONFLICT_FIELDS[entity] ?? [];
+    const chosen: Record<string, any> = {};
+    if (resolution !== 'remote') {
+      const source = resolution === 'merged' && values ? values : localItem;
+      fields.forEach(field => { chosen[field] = source[field] ?? null; });
+    }
+    // A kept local reference may point at a parent that is still waiting to sync
+    const pendingReferences: Record<string, any> = {};
+    for (const ref of ENTITY_REFERENCES[entity] ?? []) {
+      if (resolution !== 'remote' && chosen[ref.column] == null && localItem[ref.uuidColumn]) {
+        pendingReferences[ref.uuidColumn] = localItem[ref.uuidColumn];
+      }
     }
+
+    await db.withTransactionAsync(async () => {
+      if (resolution === 'remote') {
+        await this.applyRemote(entity, remoteItem);
+      } else {
+        const now = new Date().toISOString();
+        // Keeping a local delete re-queues the delete; any other choice (re)activates the row
+        const keepDeleted = resolution === 'local' && !!localItem.deleted_at;
+        const operation = keepDeleted ? 'DELETE' : 'UPDATE';
+
+        await auditedWrite(entity, uuid, 'local', async () => {
+          await db.runAsync(
+            `UPDATE ${entity} SET ${fields.map(f => `${f} = ?`).join(', ')}, deleted_at = ?, is_synced = 0, operation_type = ?, updated_at = ? WHERE uuid = ?`,
+            [...fields.map(f => chosen[f]), keepDeleted ? localItem.deleted_at : null, operation, now, uuid]
+          );
+          await refreshNormalized(db, getEntity(entity), uuid);
+        });
+
+        // Replace whatever was queued for this record with a single change carrying the reviewed values
+        await db.runAsync('DELETE FROM sync_queue WHERE entity = ? AND entity_uuid = ?', [entity, uuid]);
+        await db.runAsync(
+          `INSERT INTO sync_queue (entity, entity_local_id, entity_uuid, entity_supabase_id, operation, payload)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            entity,
+            localItem.id,
+            uuid,
+            localItem.supabase_id || remoteItem.id || null,
+            operation,
+            JSON.stringify(keepDeleted
+              ? { deleted_at: localItem.deleted_at, uuid, updated_at: now }
+              : { ...chosen, ...pendingReferences, deleted_at: null, uuid, updated_at: now })
+          ]
+        );
+        await saveSyncBase(entity, uuid, remoteItem);
+      }
+
+      await markConflictResolved(conflictId, resolution, resolution === 'remote' ? null : chosen);
+    });
+
+    syncEvents.emit('change', { entity, operation: 'UPDATE', uuid, origin: 'local' });
+    syncEvents.emit('queueChanged', { entity });
   }
 
   async getPendingSyncCount(): Promise<number> {
     const db = getDb();
     const result = await db.getFirstAsync<{ count: number }>(
-      'SELECT COUNT(*) as count FROM sync_queue WHERE retry_count < ?',
-      [this.maxRetries]
+      `SELECT COUNT(*) as count FROM sync_queue WHERE status = 'pending'`
     );
     return result?.count || 0;
   }
 
-  async clearFailedSyncs(): Promise<void> {
-    const db = getDb();
-    await db.runAsync('DELETE FROM sync_queue WHERE retry_count >= ?', [this.maxRetries]);
-  }
-
   get isConnected(): boolean {
     return this.isOnline;
   }
@@ -0,0 +1,112 @@
+// lib/localDb/syncQueue.ts
+import { getDb } from './index';
+
+// PURGE removes a record from the server for good once it has left the recycle bin
+export type SyncOperation = 'INSERT' | 'UPDATE' | 'DELETE' | 'PURGE';
+
+interface QueuedChange {
+  id: number;
+  operation: SyncOperation;
+  payload: string;
+}
+
+// While the sync manager is pushing, rows it already read must not be rewritten under it,
+// so new changes are appended instead of coalesced until the push finishes
+let pushInProgress = false;
+
+export const setPushInProgress = (value: boolean): void => {
+  pushInProgress = value;
+};
+
+const appendChange = async (
+  entity: string,
+  operation: SyncOperation,
+  localId: number,
+  uuid: string,
+  supabaseId: number | null,
+  payload: Record<string, any>
+): Promise<void> => {
+  const db = getDb();
+  await db.runAsync(
+    `INSERT INTO sync_queue (entity, entity_local_id, entity_uuid, entity_supabase_id, operation, payload)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [entity, localId, uuid, supabaseId, operation, JSON.stringify(payload)]
+  );
+};
+
+/**
+ * Queue a local change, collapsing it with what is already pending for the same record:
+ * UPDATEs merge into the pending INSERT or UPDATE, a DELETE supersedes pending UPDATEs,
+ * and a DELETE of a record whose INSERT never left the device cancels both. A PURGE replaces
+ * everything queued for the record, and is only queued at all if the server has the record.
+ * Must run inside the caller's transaction.
+ */
+export const enqueueChange = async (
+  entity: string,
+  operation: SyncOperation,
+  localId: number,
+  uuid: string,
+  supabaseId: number | null,
+  payload: Record<string, any>
+): Promise<void> => {
+  const db = getDb();
+
+  if (pushInProgress || operation === 'INSERT') {
+    await appendChange(entity, operation, localId, uuid, supabaseId, payload);
+    return;
+  }
+
+  if (operation === 'PURGE') {
+    // The record is about to vanish locally, so nothing else queued for it can be sent; dead letters included
+    await db.runAsync('DELETE FROM sync_queue WHERE entity = ? AND entity_uuid = ?', [entity, uuid]);
+    if (supabaseId) {
+      await appendChange(entity, operation, localId, uuid, supabaseId, payload);
+    }
+    return;
+  }
+
+  // Dead letters are left alone: they are reviewed and retried on their own
+  const pending = await db.getAllAsync<QueuedChange>(
+    `SELECT id, operation, payload FROM sync_queue
+     WHERE entity = ? AND entity_uuid = ? AND status = 'pending'
+     ORDER BY timestamp ASC, id ASC`,
+    [entity, uuid]
+  );
+  const pendingInsert = pending.find(change => change.operation === 'INSERT');
+  const last = pending[pending.length - 1];
+
+  if (operation === 'UPDATE') {
+    const target = pendingInsert ?? (last?.operation === 'UPDATE' ? last : undefined);
+    if (!target) {
+      await appendChange(entity, operation, localId, uuid, supabaseId, payload);
+      return;
+    }
+
+    await db.runAsync('UPDATE sync_queue SET payload = ? WHERE id = ?', [
+      JSON.stringify({ ...JSON.parse(target.payload), ...payload }),
+      target.id
+    ]);
+    if (target === pendingInsert) {
+      // Still a new record as far as the server is concerned
+      await db.runAsync(`UPDATE ${entity} SET operation_type = 'INSERT' WHERE id = ?`, [localId]);
+    }
+    return;
+  }
+
+  // DELETE
+  if (pendingInsert) {
+    // The server never saw this record: drop every queued change and keep it as a local tombstone
+    await db.runAsync(
+      `DELETE FROM sync_queue WHERE entity = ? AND entity_uuid = ? AND status = 'pending'`,
+      [entity, uuid]
+    );
+    await db.runAsync(`UPDATE ${entity} SET is_synced = 1, operation_type = NULL WHERE id = ?`, [localId]);
+    return;
+  }
+
+  await db.runAsync(
+    `DELETE FROM sync_queue WHERE entity = ? AND entity_uuid = ? AND status = 'pending' AND operation = 'UPDATE'`,
+    [entity, uuid]
+  );
+  await appendChange(entity, operation, localId, uuid, supabaseId, payload);
+};
@@ -0,0 +1,77 @@
+// lib/localDb/syncState.ts
+import { getDb } from './index';
+
+export interface SyncState {
+  entity: string;
+  last_updated_at: string | null;
+  last_remote_id: number | null;
+  last_pulled_at: string | null;
+  // The offices the watermark was taken for (comma-separated server ids); NULL for all
+  scope: string | null;
+}
+
+export const getSyncState = async (entity: string): Promise<SyncState | null> => {
+  const db = getDb();
+  return await db.getFirstAsync<SyncState>(
+    'SELECT * FROM sync_state WHERE entity = ?',
+    [entity]
+  );
+};
+
+// Advance the watermark to the last row of a merged page
+export const saveSyncState = async (
+  entity: string,
+  lastUpdatedAt: string | null,
+  lastRemoteId: number | null,
+  scope: string | null = null
+): Promise<void> => {
+  const db = getDb();
+  await db.runAsync(
+    `INSERT INTO sync_state (entity, last_updated_at, last_remote_id, last_pulled_at, scope)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(entity) DO UPDATE SET
+       last_updated_at = excluded.last_updated_at,
+       last_remote_id = excluded.last_remote_id,
+       last_pulled_at = excluded.last_pulled_at,
+       scope = excluded.scope`,
+    [entity, lastUpdatedAt, lastRemoteId, new Date().toISOString(), scope]
+  );
+};
+
+// Forget watermarks so the next sync pulls everything again (all entities if none given)
+export const resetSyncState = async (entity?: string): Promise<void> => {
+  const db = getDb();
+  if (entity) {
+    await db.runAsync('DELETE FROM sync_state WHERE entity = ?', [entity]);
+  } else {
+    await db.runAsync('DELETE FROM sync_state');
+  }
+};
+
+export interface SyncBase {
+  updated_at: string | null;
+  data: Record<string, any>;
+}
+
+export const getSyncBase = async (entity: string, uuid: string): Promise<SyncBase | null> => {
+  const db = getDb();
+  const row = await db.getFirstAsync<{ updated_at: string | null; data: string }>(
+    'SELECT updated_at, data FROM sync_base WHERE entity = ? AND entity_uuid = ?',
+    [entity, uuid]
+  );
+  return row ? { updated_at: row.updated_at, data: JSON.parse(row.data) } : null;
+};
+
+// Remember the server version a local edit is based on (the last common version)
+export const saveSyncBase = async (entity: string, uuid: string, row: Record<string, any>): Promise<void> => {
+  const db = getDb();
+  await db.runAsync(
+    `INSERT OR REPLACE INTO sync_base (entity, entity_uuid, updated_at, data) VALUES (?, ?, ?, ?)`,
+    [entity, uuid, row.updated_at || row.created_at || null, JSON.stringify(row)]
+  );
+};
+
+export const clearSyncBase = async (entity: string, uuid: string): Promise<void> => {
+  const db = getDb();
+  await db.runAsync('DELETE FROM sync_base WHERE entity = ? AND entity_uuid = ?', [entity, uuid]);
+};
@@ -1,6 +1,6 @@
 // lib/localProfile.ts
 import * as Crypto from 'expo-crypto';
-import { getDb } from './database';
+import { getDb } from './localDb';
 
 export interface LocalProfile {
   supabase_id: string;
@@ -9,6 +9,8 @@ export interface LocalProfile {
   full_name?: string;
   avatar_url?: string;
   password_hash?: string; // SHA-256
+  // صلاحيات الدور كمصفوفة JSON، تُحفظ للعمل دون اتصال
+  permissions?: string | null;
   last_login_at?: string;
 }
 
@@ -21,7 +23,7 @@ const hashPassword = async (plain: string): Promise<string> =>
 
 // حفظ أو تحديث الملف الشخصي
 export const saveLocalProfile = async (
-  profile: Omit<LocalProfile, 'last_login_at'>
+  profile: Omit<LocalProfile, 'last_login_at' | 'permissions'> & { permissions?: string[] }
 ): Promise<void> => {
   const db = getDb();
   const hashed = profile.password_hash
@@ -30,8 +32,8 @@ export const saveLocalProfile = async (
 
   await db.runAsync(
     `INSERT OR REPLACE INTO local_profiles
-       (supabase_id, email, role, full_name, avatar_url, password_hash, last_login_at)
-     VALUES (?, ?, ?, ?, ?, ?, datetime('now'));`,
+       (supabase_id, email, role, full_name, avatar_url, password_hash, permissions, last_login_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'));`,
     [
       profile.supabase_id,
       profile.email ?? null,
@@ -39,10 +41,24 @@ export const saveLocalProfile = async (
       profile.full_name ?? null,
       profile.avatar_url ?? null,
       hashed,
+      profile.permissions ? JSON.stringify(profile.permissions) : null,
     ]
   );
 };
 
+// تحديث الدور والصلاحيات المحفوظة دون المساس ببقية الملف
+export const saveLocalPermissions = async (
+  supabaseId: string,
+  role: string | null,
+  permissions: string[]
+): Promise<void> => {
+  const db = getDb();
+  await db.runAsync(
+    'UPDATE local_profiles SET role = ?, permissions = ? WHERE supabase_id = ?;',
+    [role, JSON.stringify(permissions), supabaseId]
+  );
+};
+
 // استرجاع آخر ملف شخصي
 export const getLocalProfile = async (): Promise<LocalProfile | null> => {
   const db = getDb();
@@ -72,4 +88,15 @@ export const verifyOfflinePassword = async (
 
   const inputHash = await hashPassword(password);
   return inputHash === row.password_hash ? row : null;
-};
\ No newline at end of file
+};
+
+// معرف المستخدم الحالي، لتسجيل من قام بالعملية (مثل الحذف)
+export const getCurrentUserId = async (): Promise<string | null> =>
+  (await getLocalProfile())?.supabase_id ?? null;
+
+// أسماء المستخدمين المعروفين على هذا الجهاز، لعرض من قام بالعملية
+export const getProfileNames = async (): Promise<Record<string, string>> => {
+  const db = getDb();
+  const rows = await db.getAllAsync<LocalProfile>('SELECT supabase_id, email, full_name FROM local_profiles;');
+  return Object.fromEntries(rows.map(row => [row.supabase_id, row.full_name || row.email || row.supabase_id]));
+};
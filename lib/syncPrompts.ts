@@ -0,0 +1,40 @@
+// lib/syncPrompts.ts
+import { Alert } from 'react-native';
+import { registerSyncHooks, PushErrorDecision } from './localDb/syncHooks';
+
+// Server-side unique name constraints and how each entity is called in the prompt
+const NAME_CONSTRAINTS: Record<string, { constraint: string; label: string }> = {
+  levels: { constraint: 'levels_name_key', label: 'المستوى' },
+  offices: { constraint: 'offices_name_key', label: 'المركز' },
+  students: { constraint: 'students_name_key', label: 'الطالب' },
+};
+
+const confirmDiscardDuplicate = (label: string, name: string): Promise<PushErrorDecision> =>
+  new Promise(resolve => {
+    Alert.alert(
+      'تنبيه تكرار',
+      `${label} "${name}" موجود بالفعل في السحابة. هل تريد حذف الإدخال المحلي المتكرر؟`,
+      [
+        { text: 'إلغاء', style: 'cancel', onPress: () => resolve('default') },
+        { text: 'حذف المحلي', style: 'destructive', onPress: () => resolve('discard') },
+      ],
+      { onDismiss: () => resolve('default') }
+    );
+  });
+
+// A record created offline whose name already exists on the server: offer to drop the local copy.
+// Declining leaves the change in the failed syncs list.
+export const registerDuplicateNamePrompts = (): (() => void) => {
+  const unregister = Object.entries(NAME_CONSTRAINTS).map(([entity, { constraint, label }]) =>
+    registerSyncHooks(entity, {
+      onPushError: async ({ operation, payload, error }) => {
+        if (operation !== 'INSERT' || error.kind !== 'unique_violation' || !error.message.includes(constraint)) {
+          return 'default';
+        }
+        console.warn(`⚠️ تكرار اسم ${label} "${payload.name}" في Supabase. UUID: ${payload.uuid}`);
+        return await confirmDiscardDuplicate(label, payload.name);
+      },
+    })
+  );
+  return () => unregister.forEach(fn => fn());
+};
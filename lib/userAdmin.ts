@@ -0,0 +1,52 @@
+// lib/userAdmin.ts
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { Role } from './capabilities';
+import { SET_PASSWORD_URL } from './authLinks';
+
+// What the manage-users Edge Function accepts; offices are server ids
+export interface UserDetails {
+  email?: string;
+  password?: string;
+  full_name?: string;
+  role?: Role;
+  office_ids?: number[];
+}
+
+type ManageUsersRequest =
+  | ({ action: 'create' } & UserDetails)
+  | ({ action: 'invite'; redirect_to: string } & UserDetails)
+  | ({ action: 'update'; user_id: string } & UserDetails)
+  | { action: 'disable'; user_id: string; disabled: boolean }
+  | { action: 'delete'; user_id: string };
+
+// The session's JWT goes along, and the function checks it for users.manage
+const manageUsers = async (request: ManageUsersRequest): Promise<{ user_id: string }> => {
+  const { data, error } = await supabase.functions.invoke('manage-users', { body: request });
+  if (error) {
+    // The function answers with { error } in Arabic; prefer it to the generic HTTP message
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw error;
+  }
+  return data;
+};
+
+export const createUser = async (details: UserDetails & { email: string; password: string }) =>
+  await manageUsers({ action: 'create', ...details });
+
+// The user sets their own password from the emailed link, which opens the app
+export const inviteUser = async (details: UserDetails & { email: string }) =>
+  await manageUsers({ action: 'invite', redirect_to: SET_PASSWORD_URL, ...details });
+
+export const updateUser = async (userId: string, details: UserDetails) =>
+  await manageUsers({ action: 'update', user_id: userId, ...details });
+
+// Disabled users can't sign in until enabled again; their data stays
+export const setUserDisabled = async (userId: string, disabled: boolean) =>
+  await manageUsers({ action: 'disable', user_id: userId, disabled });
+
+export const deleteUser = async (userId: string) =>
+  await manageUsers({ action: 'delete', user_id: userId });
@@ -0,0 +1,190 @@
+// supabase/functions/manage-users/index.ts
+// User administration with the service role, which the app must never hold. The caller's JWT
+// must belong to a user whose role has users.manage (see role_permissions).
+// Locally: supabase functions serve manage-users
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Long enough to mean "until re-enabled"; Auth has no permanent ban
+const DISABLED_BAN_DURATION = '876000h';
+
+interface UserFields {
+  email?: string;
+  password?: string;
+  full_name?: string;
+  role?: string;
+  office_ids?: number[];
+}
+
+type ManageUsersRequest =
+  | ({ action: 'create' } & UserFields)
+  // Emails a link to choose a password; the role and offices are assigned right away
+  | ({ action: 'invite'; redirect_to?: string } & UserFields)
+  | ({ action: 'update'; user_id: string } & UserFields)
+  | { action: 'disable'; user_id: string; disabled: boolean }
+  | { action: 'delete'; user_id: string };
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface Caller {
+  id: string;
+  role: string;
+}
+
+// The caller, from the JWT the app sent; refused unless their role may manage users
+const authorize = async (request: Request, admin: SupabaseClient): Promise<Caller> => {
+  const token = request.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) throw new HttpError(401, 'يجب تسجيل الدخول');
+
+  const { data: { user }, error } = await admin.auth.getUser(token);
+  if (error || !user) throw new HttpError(401, 'انتهت الجلسة، سجّل الدخول مجدداً');
+
+  const { data: profile } = await admin.from('profiles').select('role').eq('id', user.id).single();
+  const { data: permission } = await admin
+    .from('role_permissions')
+    .select('permission')
+    .eq('role', profile?.role ?? '')
+    .eq('permission', 'users.manage')
+    .maybeSingle();
+  if (!permission) throw new HttpError(403, 'لا تملك صلاحية إدارة المستخدمين');
+  return { id: user.id, role: profile!.role };
+};
+
+// Only roles with capabilities in role_permissions; any other role would leave the user with no home screen
+const checkRole = async (admin: SupabaseClient, role?: string) => {
+  if (role === undefined) return;
+  const { data, error } = await admin.from('role_permissions').select('role').eq('role', role).limit(1);
+  if (error) throw error;
+  if (!data || data.length === 0) throw new HttpError(400, 'دور غير معروف');
+};
+
+const saveProfile = async (admin: SupabaseClient, userId: string, fields: UserFields) => {
+  const profile: Record<string, unknown> = {};
+  if (fields.email !== undefined) profile.email = fields.email;
+  if (fields.full_name !== undefined) profile.full_name = fields.full_name;
+  if (fields.role !== undefined) profile.role = fields.role;
+  if (Object.keys(profile).length === 0) return;
+
+  const { error } = await admin.from('profiles').upsert({ id: userId, ...profile });
+  if (error) throw error;
+};
+
+// Replaces the user's office assignments; left alone when office_ids is not sent
+const saveOffices = async (admin: SupabaseClient, userId: string, officeIds?: number[]) => {
+  if (!officeIds) return;
+  const { error: deleteError } = await admin.from('user_offices').delete().eq('user_id', userId);
+  if (deleteError) throw deleteError;
+  if (officeIds.length === 0) return;
+
+  const { error } = await admin
+    .from('user_offices')
+    .insert([...new Set(officeIds)].map(officeId => ({ user_id: userId, office_id: officeId })));
+  if (error) throw error;
+};
+
+const handle = async (admin: SupabaseClient, caller: Caller, body: ManageUsersRequest) => {
+  switch (body.action) {
+    case 'create': {
+      if (!body.email || !body.password) throw new HttpError(400, 'البريد الإلكتروني وكلمة المرور مطلوبان');
+      await checkRole(admin, body.role);
+      const { data, error } = await admin.auth.admin.createUser({
+        email: body.email,
+        password: body.password,
+        email_confirm: true,
+        user_metadata: { full_name: body.full_name },
+      });
+      if (error) throw new HttpError(400, error.message);
+
+      await saveProfile(admin, data.user.id, { email: body.email, full_name: body.full_name, role: body.role ?? 'user' });
+      await saveOffices(admin, data.user.id, body.office_ids);
+      return { user_id: data.user.id };
+    }
+    case 'invite': {
+      if (!body.email) throw new HttpError(400, 'البريد الإلكتروني مطلوب');
+      await checkRole(admin, body.role);
+      const { data, error } = await admin.auth.admin.inviteUserByEmail(body.email, {
+        data: { full_name: body.full_name },
+        redirectTo: body.redirect_to,
+      });
+      if (error) throw new HttpError(400, error.message);
+
+      await saveProfile(admin, data.user.id, { email: body.email, full_name: body.full_name, role: body.role ?? 'user' });
+      await saveOffices(admin, data.user.id, body.office_ids);
+      return { user_id: data.user.id };
+    }
+    case 'update': {
+      // Otherwise the last admin could lock everyone out
+      if (body.user_id === caller.id && body.role !== undefined && body.role !== caller.role) {
+        throw new HttpError(400, 'لا يمكنك تغيير دورك بنفسك');
+      }
+      await checkRole(admin, body.role);
+      const attributes: Record<string, unknown> = {};
+      if (body.email) attributes.email = body.email;
+      if (body.password) attributes.password = body.password;
+      if (body.full_name !== undefined) attributes.user_metadata = { full_name: body.full_name };
+      if (Object.keys(attributes).length > 0) {
+        const { error } = await admin.auth.admin.updateUserById(body.user_id, attributes);
+        if (error) throw new HttpError(400, error.message);
+      }
+
+      await saveProfile(admin, body.user_id, body);
+      await saveOffices(admin, body.user_id, body.office_ids);
+      return { user_id: body.user_id };
+    }
+    case 'disable': {
+      if (body.user_id === caller.id) throw new HttpError(400, 'لا يمكنك تعطيل حسابك');
+      const { error } = await admin.auth.admin.updateUserById(body.user_id, {
+        ban_duration: body.disabled ? DISABLED_BAN_DURATION : 'none',
+      });
+      if (error) throw new HttpError(400, error.message);
+
+      const { error: profileError } = await admin.from('profiles').update({ disabled: body.disabled }).eq('id', body.user_id);
+      if (profileError) throw profileError;
+      return { user_id: body.user_id };
+    }
+    case 'delete': {
+      if (body.user_id === caller.id) throw new HttpError(400, 'لا يمكنك حذف حسابك');
+      // The profile and office assignments reference auth.users on delete cascade, so a failed
+      // delete leaves them untouched
+      const { error } = await admin.auth.admin.deleteUser(body.user_id);
+      if (error) throw new HttpError(400, error.message);
+      return { user_id: body.user_id };
+    }
+    default:
+      throw new HttpError(400, 'عملية غير معروفة');
+  }
+};
+
+Deno.serve(async request => {
+  if (request.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const admin = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  );
+
+  try {
+    const caller = await authorize(request, admin);
+    return json(await handle(admin, caller, await request.json()));
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ manage-users failed (${status}):`, message);
+    return json({ error: message }, status);
+  }
+});
@@ -1,4 +1,8 @@
-create table public.levels (
+-- supabase/migrations/20261018000000_base_schema.sql
+-- The tables the app syncs with and the ones the access rules read, as they stand on the
+-- existing project (hence "if not exists"); the migrations after this one change them.
+
+create table if not exists public.levels (
   id bigint generated by default as identity not null,
   uuid uuid null default gen_random_uuid (),
   name character varying not null,
@@ -13,9 +17,7 @@ create table public.levels (
   constraint levels_uuid_key unique (uuid)
 ) TABLESPACE pg_default;
 
-
-
-create table public.offices (
+create table if not exists public.offices (
   id bigint generated by default as identity not null,
   uuid uuid null default gen_random_uuid (),
   name character varying not null,
@@ -30,7 +32,7 @@ create table public.offices (
   constraint offices_uuid_key unique (uuid)
 ) TABLESPACE pg_default;
 
-create table public.students (
+create table if not exists public.students (
   id bigint generated by default as identity not null,
   uuid uuid null default gen_random_uuid (),
   name character varying not null,
@@ -50,4 +52,24 @@ create table public.students (
   constraint students_uuid_key unique (uuid),
   constraint fk_level foreign KEY (level_id) references levels (id) on delete set null,
   constraint fk_office foreign KEY (office_id) references offices (id) on delete set null
-) TABLESPACE pg_default;
\ No newline at end of file
+) TABLESPACE pg_default;
+
+-- One row per Auth user; role decides what they may do (see role_permissions)
+create table if not exists public.profiles (
+  id uuid not null,
+  email text null,
+  full_name text null,
+  role text not null default 'user',
+  created_at timestamp with time zone not null default now(),
+  constraint profiles_pkey primary key (id),
+  constraint profiles_id_fkey foreign KEY (id) references auth.users (id) on delete cascade
+) TABLESPACE pg_default;
+
+-- The offices whose students a user may see and change
+create table if not exists public.user_offices (
+  user_id uuid not null,
+  office_id bigint not null,
+  constraint user_offices_pkey primary key (user_id, office_id),
+  constraint user_offices_user_id_fkey foreign KEY (user_id) references auth.users (id) on delete cascade,
+  constraint user_offices_office_id_fkey foreign KEY (office_id) references offices (id) on delete cascade
+) TABLESPACE pg_default;
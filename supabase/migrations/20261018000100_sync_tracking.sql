@@ -0,0 +1,44 @@
+-- supabase/migrations/20261018000100_sync_tracking.sql
+-- What incremental pull and the recycle bin need on the synced tables. Kept apart from the
+-- baseline so the backfill runs against the rows already on the server.
+
+-- Rows written before the trigger have no updated_at; keyset paging never matches NULL,
+-- so backfill them and keep the column filled from now on
+update public.levels set updated_at = coalesce(updated_at, created_at) where updated_at is null;
+update public.offices set updated_at = coalesce(updated_at, created_at) where updated_at is null;
+update public.students set updated_at = coalesce(updated_at, created_at) where updated_at is null;
+
+alter table public.levels alter column updated_at set default now(), alter column updated_at set not null;
+alter table public.offices alter column updated_at set default now(), alter column updated_at set not null;
+alter table public.students alter column updated_at set default now(), alter column updated_at set not null;
+
+-- updated_at is stamped by the server on every write so clients can pull changes
+-- incrementally; a client-supplied time could be older than another device's watermark
+create or replace function public.set_updated_at ()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists levels_set_updated_at on public.levels;
+create trigger levels_set_updated_at before insert or update on public.levels
+  for each row execute function public.set_updated_at ();
+drop trigger if exists offices_set_updated_at on public.offices;
+create trigger offices_set_updated_at before insert or update on public.offices
+  for each row execute function public.set_updated_at ();
+drop trigger if exists students_set_updated_at on public.students;
+create trigger students_set_updated_at before insert or update on public.students
+  for each row execute function public.set_updated_at ();
+
+create index if not exists levels_updated_at_id_idx on public.levels (updated_at, id);
+create index if not exists offices_updated_at_id_idx on public.offices (updated_at, id);
+create index if not exists students_updated_at_id_idx on public.students (updated_at, id);
+
+-- Who soft-deleted a row, shown in the app's recycle bin
+alter table public.levels add column if not exists deleted_by uuid null;
+alter table public.offices add column if not exists deleted_by uuid null;
+alter table public.students add column if not exists deleted_by uuid null;
@@ -0,0 +1,32 @@
+-- supabase/migrations/20261018000200_audit_log.sql
+-- Field-level history of every record, written by the apps; rows are only ever added
+create table if not exists public.audit_log (
+  id bigint generated by default as identity not null,
+  uuid uuid not null,
+  entity text not null,
+  entity_uuid uuid not null,
+  operation text not null,
+  changes jsonb not null,
+  actor uuid null,
+  origin text not null,
+  created_at timestamp with time zone not null,
+  received_at timestamp with time zone not null default now(),
+  constraint audit_log_pkey primary key (id),
+  constraint audit_log_uuid_key unique (uuid),
+  constraint audit_log_operation_check check (operation in ('INSERT', 'UPDATE', 'DELETE'))
+) TABLESPACE pg_default;
+
+create index if not exists audit_log_record_idx on public.audit_log (entity, entity_uuid, created_at);
+
+create or replace function public.audit_log_append_only ()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists audit_log_append_only on public.audit_log;
+create trigger audit_log_append_only before update or delete on public.audit_log
+  for each row execute function public.audit_log_append_only ();
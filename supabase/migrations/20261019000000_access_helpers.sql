@@ -0,0 +1,32 @@
+-- supabase/migrations/20261019000000_access_helpers.sql
+-- Who the caller is, for the row-level security policies. Security definer so the policies
+-- on profiles and user_offices don't recurse into themselves.
+
+create or replace function public.is_admin ()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles where id = auth.uid () and role = 'admin'
+  );
+$$;
+
+create or replace function public.has_office (office bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_offices where user_id = auth.uid () and office_id = office
+  );
+$$;
+
+revoke all on function public.is_admin () from public;
+revoke all on function public.has_office (bigint) from public;
+grant execute on function public.is_admin () to authenticated;
+grant execute on function public.has_office (bigint) to authenticated;
@@ -0,0 +1,56 @@
+-- supabase/migrations/20261019000100_row_level_security.sql
+-- Admins may do anything. Other users read levels and offices, and read and write the
+-- students of the offices assigned to them in user_offices. Soft deletes are updates;
+-- purging a row for good is left to admins. lib/localDb/permissions.ts mirrors these
+-- rules so the app refuses offline edits the server would reject.
+
+alter table public.levels enable row level security;
+alter table public.offices enable row level security;
+alter table public.students enable row level security;
+alter table public.profiles enable row level security;
+alter table public.user_offices enable row level security;
+alter table public.audit_log enable row level security;
+
+-- Levels and offices: read-only for users. Every office is readable, so the app can match
+-- assignments to offices.
+create policy levels_read on public.levels
+  for select to authenticated using (true);
+create policy levels_admin on public.levels
+  for all to authenticated using (public.is_admin ()) with check (public.is_admin ());
+
+create policy offices_read on public.offices
+  for select to authenticated using (true);
+create policy offices_admin on public.offices
+  for all to authenticated using (public.is_admin ()) with check (public.is_admin ());
+
+-- Students: users only see and change the students of their offices, and may not move
+-- a student to an office of someone else
+create policy students_admin on public.students
+  for all to authenticated using (public.is_admin ()) with check (public.is_admin ());
+create policy students_office_read on public.students
+  for select to authenticated using (public.has_office (office_id));
+create policy students_office_insert on public.students
+  for insert to authenticated with check (public.has_office (office_id));
+create policy students_office_update on public.students
+  for update to authenticated
+  using (public.has_office (office_id))
+  with check (public.has_office (office_id));
+
+-- Profiles: everyone reads their own; roles are only changed by admins
+create policy profiles_read_own on public.profiles
+  for select to authenticated using (id = auth.uid ());
+create policy profiles_admin on public.profiles
+  for all to authenticated using (public.is_admin ()) with check (public.is_admin ());
+
+-- Office assignments: everyone reads their own; only admins assign
+create policy user_offices_read_own on public.user_offices
+  for select to authenticated using (user_id = auth.uid ());
+create policy user_offices_admin on public.user_offices
+  for all to authenticated using (public.is_admin ()) with check (public.is_admin ());
+
+-- Audit log: any device appends its entries; only admins read them back.
+-- The append-only trigger still refuses updates and deletes.
+create policy audit_log_append on public.audit_log
+  for insert to authenticated with check (true);
+create policy audit_log_admin_read on public.audit_log
+  for select to authenticated using (public.is_admin ());
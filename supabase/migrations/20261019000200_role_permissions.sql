@@ -0,0 +1,128 @@
+-- supabase/migrations/20261019000200_role_permissions.sql
+-- What each role may do, as capabilities such as students.create or levels.manage. The app
+-- caches the signed-in user's capabilities (lib/capabilities.ts) to show only the screens and
+-- actions they allow; the policies below enforce them.
+
+create table if not exists public.role_permissions (
+  role text not null,
+  permission text not null,
+  constraint role_permissions_pkey primary key (role, permission)
+) TABLESPACE pg_default;
+
+insert into public.role_permissions (role, permission) values
+  ('admin', 'students.create'),
+  ('admin', 'students.update'),
+  ('admin', 'students.delete'),
+  ('admin', 'students.merge'),
+  ('admin', 'offices.all'),
+  ('admin', 'levels.manage'),
+  ('admin', 'offices.manage'),
+  ('admin', 'users.manage'),
+  ('admin', 'audit.read'),
+  ('admin', 'recycleBin.manage'),
+  ('admin', 'sync.manage'),
+  -- Supervisors see every office and change nothing
+  ('supervisor', 'offices.all'),
+  ('supervisor', 'audit.read'),
+  -- Office managers run their offices' students
+  ('office_manager', 'students.create'),
+  ('office_manager', 'students.update'),
+  ('office_manager', 'students.delete'),
+  ('office_manager', 'students.merge'),
+  ('office_manager', 'audit.read'),
+  -- Data-entry clerks add and correct students
+  ('data_entry', 'students.create'),
+  ('data_entry', 'students.update'),
+  -- What users could do before roles were split
+  ('user', 'students.create'),
+  ('user', 'students.update'),
+  ('user', 'students.delete')
+on conflict do nothing;
+
+alter table public.role_permissions enable row level security;
+
+create policy role_permissions_read on public.role_permissions
+  for select to authenticated using (true);
+create policy role_permissions_admin on public.role_permissions
+  for all to authenticated using (public.is_admin ()) with check (public.is_admin ());
+
+create or replace function public.has_permission (wanted text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profiles
+    join public.role_permissions on role_permissions.role = profiles.role
+    where profiles.id = auth.uid () and role_permissions.permission = wanted
+  );
+$$;
+
+revoke all on function public.has_permission (text) from public;
+grant execute on function public.has_permission (text) to authenticated;
+
+-- Levels and offices are managed by whoever holds the capability, not only admins
+create policy levels_manage on public.levels
+  for all to authenticated
+  using (public.has_permission ('levels.manage'))
+  with check (public.has_permission ('levels.manage'));
+create policy offices_manage on public.offices
+  for all to authenticated
+  using (public.has_permission ('offices.manage'))
+  with check (public.has_permission ('offices.manage'));
+
+-- Students of every office for those who see them all; writes within the assigned offices
+-- need the matching capability. A soft delete is an update that sets deleted_at.
+create policy students_read_all on public.students
+  for select to authenticated using (public.has_permission ('offices.all'));
+
+drop policy if exists students_office_insert on public.students;
+create policy students_office_insert on public.students
+  for insert to authenticated
+  with check (public.has_office (office_id) and public.has_permission ('students.create'));
+
+drop policy if exists students_office_update on public.students;
+create policy students_office_update on public.students
+  for update to authenticated
+  using (
+    public.has_office (office_id)
+    and (public.has_permission ('students.update') or public.has_permission ('students.delete'))
+  )
+  with check (
+    public.has_office (office_id)
+    and (public.has_permission ('students.update') or public.has_permission ('students.delete'))
+  );
+
+-- The policy can't tell a soft delete from an edit, so deleting or restoring is checked here.
+-- Requests without a user (the service role) are left alone.
+create or replace function public.students_check_delete ()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid () is not null
+    and (new.deleted_at is distinct from old.deleted_at or new.deleted_by is distinct from old.deleted_by)
+    and not public.has_permission ('students.delete') then
+    raise exception 'permission denied: students.delete' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists students_check_delete on public.students;
+create trigger students_check_delete before update on public.students
+  for each row execute function public.students_check_delete ();
+
+create policy profiles_users_manage on public.profiles
+  for all to authenticated
+  using (public.has_permission ('users.manage'))
+  with check (public.has_permission ('users.manage'));
+create policy user_offices_users_manage on public.user_offices
+  for all to authenticated
+  using (public.has_permission ('users.manage'))
+  with check (public.has_permission ('users.manage'));
+create policy audit_log_read on public.audit_log
+  for select to authenticated using (public.has_permission ('audit.read'));
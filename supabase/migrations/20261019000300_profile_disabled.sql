@@ -0,0 +1,3 @@
+-- supabase/migrations/20261019000300_profile_disabled.sql
+-- Disabled users are banned in Auth by the manage-users function; the flag lets the app show it
+alter table public.profiles add column if not exists disabled boolean not null default false;
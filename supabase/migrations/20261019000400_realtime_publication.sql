@@ -0,0 +1,18 @@
+-- supabase/migrations/20261019000400_realtime_publication.sql
+-- postgres_changes only reports tables in the supabase_realtime publication; without this the
+-- app's channel subscribes fine and then never hears of a change.
+
+do $$
+declare
+  synced text;
+begin
+  foreach synced in array array['levels', 'offices', 'students'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = synced
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', synced);
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,40 @@
+-- supabase/migrations/20261019000500_audit_log_access.sql
+-- Audit entries may only be written in the caller's own name, about records the caller can see,
+-- and are read back by those holding audit.read, for the records they can see. Records that are
+-- not on the server yet (their push is still queued) can't be checked and are let through.
+
+create or replace function public.can_see_record (record_entity text, record uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case record_entity
+    when 'students' then
+      not exists (select 1 from public.students where uuid = record)
+      or exists (
+        select 1 from public.students
+        where uuid = record
+          and (public.has_permission ('offices.all') or public.has_office (office_id))
+      )
+    -- Every signed-in user reads levels and offices
+    when 'levels' then true
+    when 'offices' then true
+    else public.is_admin ()
+  end;
+$$;
+
+revoke all on function public.can_see_record (text, uuid) from public;
+grant execute on function public.can_see_record (text, uuid) to authenticated;
+
+drop policy if exists audit_log_append on public.audit_log;
+create policy audit_log_append on public.audit_log
+  for insert to authenticated
+  with check (actor = auth.uid () and public.can_see_record (entity, entity_uuid));
+
+drop policy if exists audit_log_admin_read on public.audit_log;
+drop policy if exists audit_log_read on public.audit_log;
+create policy audit_log_read on public.audit_log
+  for select to authenticated
+  using (public.has_permission ('audit.read') and public.can_see_record (entity, entity_uuid));
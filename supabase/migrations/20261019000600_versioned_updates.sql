@@ -0,0 +1,53 @@
+-- supabase/migrations/20261019000600_versioned_updates.sql
+-- Applies a batch of queued UPDATE/DELETE pushes in one request. Each row is only written when it
+-- is still at the version the client's edit was based on, as the one-by-one push does; rows that
+-- moved on are left out of the result, and the client settles them as conflicts. Security invoker,
+-- so the caller's row-level security applies to every row.
+--
+-- changes: [{ "id": 1, "base_updated_at": "...", "live_only": false, "values": { column: value } }]
+-- base_updated_at null skips the version check; live_only refuses soft-deleted rows.
+
+create or replace function public.apply_versioned_changes (target_table text, changes jsonb)
+returns setof jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  change jsonb;
+  assignments text;
+  written jsonb;
+begin
+  if target_table not in ('levels', 'offices', 'students') then
+    raise exception 'apply_versioned_changes: unknown table %', target_table;
+  end if;
+
+  for change in select value from jsonb_array_elements(changes) loop
+    select string_agg(format('%I = source.%I', column_name, column_name), ', ')
+      into assignments
+      from jsonb_object_keys(change -> 'values') as column_name;
+
+    execute format(
+      'update public.%1$I as target set %2$s
+         from jsonb_populate_record(null::public.%1$I, $1) as source
+        where target.id = $2
+          and ($3 is null or target.updated_at = $3)
+          and (not $4 or target.deleted_at is null)
+        returning to_jsonb(target.*)',
+      target_table, assignments
+    )
+      into written
+      using change -> 'values',
+        (change ->> 'id')::bigint,
+        (change ->> 'base_updated_at')::timestamptz,
+        coalesce((change ->> 'live_only')::boolean, false);
+
+    if written is not null then
+      return next written;
+    end if;
+  end loop;
+end;
+$$;
+
+revoke all on function public.apply_versioned_changes (text, jsonb) from public;
+grant execute on function public.apply_versioned_changes (text, jsonb) to authenticated;